@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "ApiService" ADD VALUE 'PGVECTOR';
+ALTER TYPE "ApiService" ADD VALUE 'IN_MEMORY';
+
+-- CreateTable
+CREATE TABLE "message_embeddings" (
+    "id" TEXT NOT NULL,
+    "namespace" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "conversationId" TEXT,
+    "messageId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_embeddings_namespace_idx" ON "message_embeddings"("namespace");
+
+-- CreateIndex
+CREATE INDEX "message_embeddings_userId_idx" ON "message_embeddings"("userId");
+
+-- CreateIndex
+CREATE INDEX "message_embeddings_conversationId_idx" ON "message_embeddings"("conversationId");
+
+-- pgvector is only needed with VECTOR_STORE=pgvector, so the embedding
+-- column is added only where the extension can be installed; otherwise
+-- the pgvector store adds it on first use. The column has no fixed
+-- dimension, so any embedding model fits (searches compare vectors of the
+-- query's dimension only, exactly, within the user's namespace)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+        CREATE EXTENSION IF NOT EXISTS "vector";
+        ALTER TABLE "message_embeddings" ADD COLUMN "embedding" vector;
+    END IF;
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE NOTICE 'Skipping pgvector: not allowed to create the extension';
+END $$;
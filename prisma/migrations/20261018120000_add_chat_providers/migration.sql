@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "ApiService" ADD VALUE 'ANTHROPIC';
+ALTER TYPE "ApiService" ADD VALUE 'OPENAI_COMPATIBLE';
+ALTER TYPE "ApiService" ADD VALUE 'MOCK';
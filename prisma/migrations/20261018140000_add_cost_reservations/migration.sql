@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ReservationStatus" AS ENUM ('PENDING', 'SETTLED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "cost_reservations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "actualCost" DOUBLE PRECISION,
+    "status" "ReservationStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "cost_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cost_reservations_userId_status_idx" ON "cost_reservations"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "cost_reservations" ADD CONSTRAINT "cost_reservations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN "summary" TEXT,
+ADD COLUMN "summaryThroughMessageId" TEXT;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "api_usage" ADD COLUMN "cacheHit" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "embedding_cache" (
+    "key" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "embedding_cache_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "replyToId" TEXT,
+ADD COLUMN "selected" BOOLEAN NOT NULL DEFAULT true;
+
+-- Link existing replies to the user message just before them
+UPDATE "messages" AS reply
+SET "replyToId" = (
+    SELECT prompt."id"
+    FROM "messages" AS prompt
+    WHERE prompt."conversationId" = reply."conversationId"
+      AND prompt."role" = 'user'
+      AND (prompt."timestamp", prompt."createdAt") <= (reply."timestamp", reply."createdAt")
+    ORDER BY prompt."timestamp" DESC, prompt."createdAt" DESC
+    LIMIT 1
+)
+WHERE reply."role" = 'assistant';
+
+-- CreateIndex
+CREATE INDEX "messages_replyToId_idx" ON "messages"("replyToId");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
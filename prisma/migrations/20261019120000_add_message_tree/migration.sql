@@ -0,0 +1,18 @@
+-- A reply's prompt becomes its parent in the message tree
+ALTER TABLE "messages" RENAME COLUMN "replyToId" TO "parentId";
+ALTER INDEX "messages_replyToId_idx" RENAME TO "messages_parentId_idx";
+ALTER TABLE "messages" RENAME CONSTRAINT "messages_replyToId_fkey" TO "messages_parentId_fkey";
+
+-- Each user message follows the selected reply before it
+UPDATE "messages" AS prompt
+SET "parentId" = (
+    SELECT reply."id"
+    FROM "messages" AS reply
+    WHERE reply."conversationId" = prompt."conversationId"
+      AND reply."role" = 'assistant'
+      AND reply."selected"
+      AND reply."timestamp" < prompt."timestamp"
+    ORDER BY reply."timestamp" DESC, reply."createdAt" DESC
+    LIMIT 1
+)
+WHERE prompt."role" = 'user';
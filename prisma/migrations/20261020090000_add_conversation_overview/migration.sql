@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN "titleManual" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "overview" TEXT;
+
+-- Until now only users could set titles
+UPDATE "conversations" SET "titleManual" = true WHERE "title" IS NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- CreateIndex (full-text search over message content)
+CREATE INDEX "messages_searchVector_idx" ON "messages" USING GIN ("searchVector");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "model" TEXT,
+ADD COLUMN "templates" JSONB;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ImportSource" AS ENUM ('CHATGPT', 'EXPORT');
+
+-- CreateEnum
+CREATE TYPE "ImportStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED');
+
+-- CreateTable
+CREATE TABLE "conversation_imports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" "ImportSource" NOT NULL,
+    "fileName" TEXT,
+    "status" "ImportStatus" NOT NULL DEFAULT 'PENDING',
+    "backfillEmbeddings" BOOLEAN NOT NULL DEFAULT false,
+    "totalConversations" INTEGER NOT NULL,
+    "importedConversations" INTEGER NOT NULL DEFAULT 0,
+    "importedMessages" INTEGER NOT NULL DEFAULT 0,
+    "embeddedMessages" INTEGER NOT NULL DEFAULT 0,
+    "embeddingCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "embeddingError" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "conversation_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "conversation_import_items" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "conversationId" TEXT,
+    "embedded" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "conversation_import_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "conversation_imports_userId_idx" ON "conversation_imports"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_import_items_importId_position_key" ON "conversation_import_items"("importId", "position");
+
+-- AddForeignKey
+ALTER TABLE "conversation_imports" ADD CONSTRAINT "conversation_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_import_items" ADD CONSTRAINT "conversation_import_items_importId_fkey" FOREIGN KEY ("importId") REFERENCES "conversation_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
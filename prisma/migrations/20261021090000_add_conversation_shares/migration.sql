@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "conversation_shares" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "hideTemplateVariables" BOOLEAN NOT NULL DEFAULT false,
+    "redactedMessages" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversation_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_shares_token_key" ON "conversation_shares"("token");
+
+-- CreateIndex
+CREATE INDEX "conversation_shares_conversationId_idx" ON "conversation_shares"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "conversation_shares_userId_idx" ON "conversation_shares"("userId");
+
+-- AddForeignKey
+ALTER TABLE "conversation_shares" ADD CONSTRAINT "conversation_shares_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_shares" ADD CONSTRAINT "conversation_shares_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "history_summaries" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "throughMessageId" TEXT NOT NULL,
+    "summary" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "history_summaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "history_summaries_throughMessageId_key" ON "history_summaries"("throughMessageId");
+
+-- CreateIndex
+CREATE INDEX "history_summaries_conversationId_idx" ON "history_summaries"("conversationId");
+
+-- AddForeignKey
+ALTER TABLE "history_summaries" ADD CONSTRAINT "history_summaries_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "history_summaries" ADD CONSTRAINT "history_summaries_throughMessageId_fkey" FOREIGN KEY ("throughMessageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each conversation's summary to its anchor message; summaries whose
+-- anchor is gone are dropped
+INSERT INTO "history_summaries" ("id", "conversationId", "throughMessageId", "summary")
+SELECT md5(random()::text || c."id"), c."id", c."summaryThroughMessageId", c."summary"
+FROM "conversations" c
+JOIN "messages" m ON m."id" = c."summaryThroughMessageId"
+WHERE c."summary" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "conversations" DROP COLUMN "summary",
+DROP COLUMN "summaryThroughMessageId";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "conversation_import_items" ADD COLUMN "embeddingClaimedAt" TIMESTAMP(3);
@@ -0,0 +1,18 @@
+import { notFound, redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { FailedJobs } from "@/components";
+import { authOptions, isAdminEmail } from "@/lib/auth";
+
+// Admins only; everyone else gets a 404 so the page isn't advertised
+export default async function AdminJobsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    redirect("/login?callbackUrl=/admin/jobs");
+  }
+  if (!isAdminEmail(session.user.email)) {
+    notFound();
+  }
+
+  return <FailedJobs />;
+}
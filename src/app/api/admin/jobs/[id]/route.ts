@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkAdmin } from "@/lib/auth";
+import { discardJob, retryJob } from "@/lib/jobs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Build a 500 response, with details in development only
+ */
+const serverError = (message: string, error: unknown) => {
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return NextResponse.json(
+    {
+      error: message,
+      details: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+    },
+    { status: 500 }
+  );
+};
+
+/**
+ * Retry a dead job with a fresh set of attempts
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const denied = await checkAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    if (!(await retryJob(id))) {
+      return NextResponse.json({ error: "Dead job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id, retried: true });
+  } catch (error) {
+    return serverError("Failed to retry job", error);
+  }
+}
+
+/**
+ * Discard a dead job
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const denied = await checkAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const { id } = await params;
+    if (!(await discardJob(id))) {
+      return NextResponse.json({ error: "Dead job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    return serverError("Failed to discard job", error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { JobStatus } from "@prisma/client";
+import { checkAdmin } from "@/lib/auth";
+import { getJobCounts, listJobs } from "@/lib/jobs";
+import { JobListResponse, JobSummary } from "@/types";
+
+/**
+ * List jobs in one status (default DEAD) with counts for every status
+ * Admins only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await checkAdmin();
+    if (denied) {
+      return denied;
+    }
+
+    const status = request.nextUrl.searchParams.get("status") || JobStatus.DEAD;
+    if (!Object.values(JobStatus).includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const [jobs, counts] = await Promise.all([
+      listJobs(status as JobStatus),
+      getJobCounts(),
+    ]);
+
+    const response: JobListResponse = {
+      jobs: jobs.map(
+        (job): JobSummary => ({
+          id: job.id,
+          type: job.type,
+          payload: job.payload,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          lastError: job.lastError,
+          runAt: job.runAt.toISOString(),
+          createdAt: job.createdAt.toISOString(),
+          updatedAt: job.updatedAt.toISOString(),
+        })
+      ),
+      counts,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to list jobs:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to list jobs",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
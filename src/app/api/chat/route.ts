@@ -1,50 +1,627 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { templateEngine } from "@/lib/templateEngine";
-import { getTemplateById } from "@/lib/templates";
-import { ChatRequest, ChatResponse } from "@/types";
-import { storeMessageEmbedding, querySimilarMessages } from "@/lib/pinecone";
+import { getTemplateById, isTemplateSelection } from "@/lib/templates";
+import {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  JsonSchema,
+  SavedExchange,
+  TemplateSelection,
+  TemplateStackEntry,
+} from "@/types";
+import { getVectorStore, querySimilarMessages } from "@/lib/vectorStore";
+import {
+  ChatProvider,
+  CompletionAttempt,
+  ProviderMessage,
+  TokenUsage,
+  getChatModel,
+  getChatProvider,
+  getEmbeddingModel,
+  getEmbeddingProvider,
+  getFallbackModels,
+  isAllowedChatModel,
+} from "@/lib/chatProviders";
 import {
   logChatCompletion,
-  logEmbedding,
-  logPineconeQuery,
-  logPineconeUpsert,
+  logVectorStoreQuery,
 } from "@/lib/costTracking";
-import { checkUserLimits, updateUserCostLimits } from "@/lib/limitChecker";
+import { embedWithCache, logCachedEmbedding } from "@/lib/embeddingCache";
+import {
+  checkUserLimits,
+  releaseReservation,
+  reserveCost,
+  settleReservation,
+} from "@/lib/limitChecker";
+import { calculateEmbeddingCost, calculateVectorStoreCost } from "@/lib/pricing";
+import { countTokens, estimateRequestCost } from "@/lib/tokenEstimator";
+import { fitHistoryToContext } from "@/lib/contextManager";
+import {
+  ChatTool,
+  getAvailableTools,
+  runToolLoop,
+  RESERVED_TOOL_ROUNDS,
+} from "@/lib/tools";
+import {
+  buildSchemaInstruction,
+  completeStructured,
+  MAX_REPAIR_ATTEMPTS,
+} from "@/lib/structuredOutput";
+import {
+  ChatRequestError,
+  chatErrorResponse,
+  toChatRequestError,
+} from "@/lib/chatErrors";
+import { encodeSSEEvent } from "@/lib/sse";
+import { enqueueJob } from "@/lib/jobs";
 import {
-  calculateChatCompletionCost,
-  calculateEmbeddingCost,
-  calculatePineconeCost,
-} from "@/lib/pricing";
+  getConversationHistory,
+  getEditContext,
+  getRegenerationContext,
+  getUserConversation,
+  RegenerationContext,
+  ReplyDetails,
+  saveAlternative,
+  saveExchange,
+} from "@/lib/conversations";
+import { needsOverview } from "@/lib/conversationOverview";
 
-// Initialize OpenAI client
-let openaiClient: OpenAI | null = null;
+// Upper bound on reply length; also the output side of the cost estimate
+const MAX_OUTPUT_TOKENS = 1000;
+
+// Most templates that can be composed into one system prompt
+const MAX_TEMPLATE_STACK = 5;
 
 /**
- * Get or create OpenAI client instance
+ * Check the shape of a request's template stack
  */
-const getOpenAIClient = (): OpenAI => {
-  if (openaiClient) {
-    return openaiClient;
+const isTemplateStack = (value: unknown): value is TemplateSelection[] =>
+  Array.isArray(value) &&
+  value.length <= MAX_TEMPLATE_STACK &&
+  value.every(isTemplateSelection);
+
+/**
+ * Classify a failure, logging the ones that point at a bug on our side
+ */
+const classifyError = (error: unknown): ChatRequestError => {
+  const chatError = toChatRequestError(error);
+  if (chatError.code === "internal_error") {
+    console.error("Chat request failed:", error);
   }
+  return chatError;
+};
 
-  const apiKey =
-    process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not set in environment variables");
+const cancelledError = () =>
+  new ChatRequestError("cancelled", "The request was cancelled.");
+
+const emptyReplyError = () =>
+  new ChatRequestError(
+    "invalid_model_output",
+    "The model returned an empty reply."
+  );
+
+/**
+ * Store a finished reply: as a new exchange, or as another version of the
+ * reply being regenerated
+ */
+const storeReply = async ({
+  userId,
+  conversationId,
+  parentId,
+  message,
+  reply,
+  startTime,
+  regeneration,
+  details,
+  ids,
+  stopped,
+}: {
+  userId: string;
+  conversationId?: string;
+  /** Message the prompt follows on its branch */
+  parentId?: string;
+  message: string;
+  reply: string;
+  startTime: number;
+  regeneration?: RegenerationContext;
+  /** Model and templates behind the reply, kept for exports */
+  details: ReplyDetails;
+  /** IDs announced to the client for a new exchange */
+  ids?: SavedExchange;
+  /** The user stopped the reply; it's kept off the tree until they keep it */
+  stopped?: boolean;
+}): Promise<SavedExchange> => {
+  if (regeneration && conversationId) {
+    const assistantMessageId = await saveAlternative({
+      conversationId,
+      parentId: regeneration.prompt.id,
+      content: reply,
+      details,
+    });
+    return {
+      conversationId,
+      userMessageId: regeneration.prompt.id,
+      assistantMessageId,
+    };
   }
 
-  openaiClient = new OpenAI({
-    apiKey: apiKey,
+  return saveExchange({
+    userId,
+    conversationId,
+    parentId,
+    userMessage: message,
+    assistantMessage: reply,
+    userTimestamp: new Date(startTime),
+    details,
+    ids,
+    stopped,
   });
+};
 
-  return openaiClient;
+/**
+ * Log usage for a finished exchange and queue its bookkeeping: indexing
+ * both messages for RAG, refreshing the user's cost counters and, when
+ * due, the conversation's title and overview
+ * The reservation is settled here, or by the indexing job once its
+ * embedding and upsert costs are known. A cancelled or failed exchange
+ * only has its usage logged, since nothing was stored.
+ */
+const recordExchange = async (
+  provider: ChatProvider,
+  {
+    model,
+    userId,
+    conversationId,
+    message,
+    reply,
+    usage,
+    attempts,
+    reservationId,
+    priorCost,
+    cancelled = false,
+    failed = false,
+    messageId,
+    userMessageId,
+    regenerated = false,
+    describe = false,
+  }: {
+    /** The model that answered, which is what the usage is billed to */
+    model: string;
+    userId?: string;
+    conversationId?: string;
+    message: string;
+    reply: string;
+    usage?: TokenUsage;
+    /** Provider attempts behind the reply, kept in the usage metadata */
+    attempts?: CompletionAttempt[];
+    /** Cost reservation to settle once usage is logged */
+    reservationId?: string;
+    /** Cost logged earlier in the request (RAG lookup, tool rounds, ...) */
+    priorCost: number;
+    /** The client stopped the reply; usage may be an estimate */
+    cancelled?: boolean;
+    /** The model answered but the reply was empty or couldn't be stored */
+    failed?: boolean;
+    /** Stored reply the usage is billed for */
+    messageId?: string;
+    /** Stored prompt it answers */
+    userMessageId?: string;
+    /** The reply is another version of an earlier one */
+    regenerated?: boolean;
+    /** Queue a new title and overview for the conversation */
+    describe?: boolean;
+  }
+): Promise<void> => {
+  let cost = priorCost;
+  const stored = !cancelled && !failed;
+
+  // Log chat completion usage
+  if (usage && userId) {
+    const metadata = {
+      ...(attempts && { attempts }),
+      ...(cancelled && { cancelled }),
+      ...(failed && { failed }),
+      ...(messageId && { messageId }),
+      ...(regenerated && { regenerated }),
+    };
+    cost += await logChatCompletion(model, usage.inputTokens, usage.outputTokens, {
+      userId,
+      conversationId,
+      service: provider.service,
+      ...(Object.keys(metadata).length > 0 && { metadata }),
+    });
+  }
+
+  if (describe && userId && conversationId && stored) {
+    await enqueueJob("describe-conversation", { userId, conversationId }).catch(
+      (error) => {
+        console.error("Failed to queue conversation overview:", error);
+      }
+    );
+  }
+
+  // Anonymous callers have no vector namespace, so nothing is indexed
+  if (userId && stored && getVectorStore()) {
+    const timestamp = new Date().toISOString();
+    try {
+      await enqueueJob("index-exchange", {
+        userId,
+        conversationId,
+        message,
+        reply,
+        // Stored IDs let search hits link back to the messages
+        userMessageId:
+          userMessageId ??
+          `user-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        assistantMessageId:
+          messageId ??
+          `assistant-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        timestamp,
+        embeddingService: getEmbeddingProvider().service,
+        reservationId,
+        settledCost: cost,
+        regenerated,
+      });
+      // The job settles the reservation and refreshes the cost counters
+      return;
+    } catch (error) {
+      // Indexing is best-effort - the reply has already been generated
+      console.error("Failed to queue message indexing:", error);
+    }
+  }
+
+  if (reservationId) {
+    await settleReservation(reservationId, cost);
+  }
+  if (userId && usage) {
+    // Recalculated from the database by the job, so no need to pass cost
+    await enqueueJob("update-cost-limits", { userId }).catch((error) => {
+      console.error("Failed to queue cost limit update:", error);
+    });
+  }
+};
+
+/**
+ * Run the completion: schema-validated JSON when the template declares an
+ * output schema, otherwise a tool loop
+ * extraCost is what was logged along the way (tool rounds, rejected
+ * structured replies); the final round is left for recordExchange
+ */
+const generateReply = async (
+  provider: ChatProvider,
+  messages: ProviderMessage[],
+  tools: ChatTool[],
+  {
+    model,
+    userId,
+    conversationId,
+    outputSchema,
+    costBudget,
+    pricedModels,
+    onToken,
+    signal,
+  }: {
+    model: string;
+    userId?: string;
+    conversationId?: string;
+    outputSchema?: JsonSchema;
+    /** Most the tool loop may spend: what was reserved for the request */
+    costBudget?: number;
+    /** The requested model and its fallbacks, for costing tool rounds */
+    pricedModels?: string[];
+    onToken?: (token: string) => void;
+    /** Stops the model call; the partial result comes back as cancelled */
+    signal?: AbortSignal;
+  }
+): Promise<{
+  content: string;
+  data?: unknown;
+  /** The model that answered; a fallback if the requested one failed */
+  model: string;
+  attempts?: CompletionAttempt[];
+  usage?: TokenUsage;
+  extraCost: number;
+  /** The signal aborted the reply; content is partial */
+  cancelled?: boolean;
+}> => {
+  if (outputSchema) {
+    const result = await completeStructured({
+      provider,
+      model,
+      messages,
+      schema: outputSchema,
+      temperature: 0.7,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      userId,
+      conversationId,
+      signal,
+    });
+    // Only validated JSON is sent, so it arrives in one piece
+    if (!result.cancelled) {
+      onToken?.(result.content);
+    }
+    return {
+      content: result.content,
+      data: result.data,
+      model: result.model,
+      attempts: result.attempts,
+      usage: result.usage,
+      extraCost: result.repairCost,
+      cancelled: result.cancelled,
+    };
+  }
+
+  const result = await runToolLoop({
+    provider,
+    model,
+    messages,
+    tools,
+    context: { userId, conversationId },
+    temperature: 0.7,
+    maxTokens: MAX_OUTPUT_TOKENS,
+    costBudget,
+    pricedModels,
+    onToken,
+    signal,
+  });
+  return {
+    content: result.content,
+    model: result.model,
+    attempts: result.attempts,
+    usage: result.usage,
+    extraCost: result.toolCost,
+    cancelled: result.cancelled,
+  };
+};
+
+/**
+ * Stream the completion to the client as Server-Sent Events
+ * Tool rounds and repairs are logged as they finish; the final round's
+ * usage is logged once the reply is complete, or once the client has
+ * disconnected and the model call was stopped
+ */
+const streamChatCompletion = (
+  provider: ChatProvider,
+  messages: ProviderMessage[],
+  tools: ChatTool[],
+  {
+    model,
+    userId,
+    conversationId,
+    message,
+    templateId,
+    templateIds,
+    templates,
+    outputSchema,
+    costBudget,
+    pricedModels,
+    startTime,
+    reservationId,
+    priorCost,
+    signal,
+    parentId,
+    regeneration,
+    exchangeIds,
+    describe,
+  }: {
+    model: string;
+    userId?: string;
+    conversationId?: string;
+    message: string;
+    templateId?: string;
+    /** Templates composed into the system prompt, in order */
+    templateIds?: string[];
+    /** The same templates with their variables, stored with the reply */
+    templates: TemplateSelection[];
+    outputSchema?: JsonSchema;
+    /** Most the tool loop may spend */
+    costBudget: number;
+    /** The requested model and its fallbacks, for costing tool rounds */
+    pricedModels: string[];
+    startTime: number;
+    /** Cost reservation to settle once usage is logged */
+    reservationId?: string;
+    /** Cost logged before streaming started (RAG lookup, history summary) */
+    priorCost: number;
+    /** The request's signal, aborted when the client goes away */
+    signal: AbortSignal;
+    /** Message the prompt follows on its branch */
+    parentId?: string;
+    /** Set when writing another version of a stored reply */
+    regeneration?: RegenerationContext;
+    /**
+     * IDs a signed-in user's new exchange is stored under, sent before the
+     * reply; a stopped one is stored under them too, for the user to keep
+     * or discard
+     */
+    exchangeIds?: SavedExchange;
+    /** Queue a new title and overview once the exchange is stored */
+    describe: boolean;
+  }
+): Response => {
+  // Set when the client disconnects (Stop button, closed tab); the model
+  // call is aborted and the partial reply is stored as stopped (new
+  // exchanges only)
+  let clientClosed = false;
+  const disconnected = new AbortController();
+  const abortSignal = AbortSignal.any([signal, disconnected.signal]);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let reply = "";
+      let data: unknown;
+      let answeredModel = model;
+      let attempts: CompletionAttempt[] | undefined;
+      let usage: TokenUsage | undefined;
+      let extraCost = 0;
+      let cancelled = false;
+      // Set once the model call has finished and is billable
+      let completed = false;
+      let saved: SavedExchange | undefined;
+
+      const send = (event: ChatStreamEvent) => {
+        if (!clientClosed) {
+          controller.enqueue(encodeSSEEvent(event));
+        }
+      };
+      const close = () => {
+        if (!clientClosed) {
+          controller.close();
+        }
+      };
+
+      try {
+        if (exchangeIds) {
+          send({ type: "start", exchange: exchangeIds });
+        }
+
+        const result = await generateReply(provider, messages, tools, {
+          model,
+          userId,
+          conversationId,
+          outputSchema,
+          costBudget,
+          pricedModels,
+          onToken: (token) => send({ type: "token", content: token }),
+          signal: abortSignal,
+        });
+        reply = result.content;
+        data = result.data;
+        answeredModel = result.model;
+        attempts = result.attempts;
+        usage = result.usage;
+        extraCost = result.extraCost;
+        cancelled = result.cancelled ?? false;
+        completed = true;
+
+        if (cancelled) {
+          // The client has gone; the partial reply is saved off the tree
+          // so the user can keep or discard it by ID
+          close();
+          if (userId && exchangeIds && reply) {
+            try {
+              saved = await storeReply({
+                userId,
+                conversationId,
+                parentId,
+                message,
+                reply,
+                startTime,
+                details: { model: answeredModel, templates },
+                ids: exchangeIds,
+                stopped: true,
+              });
+              conversationId = saved.conversationId;
+            } catch (error) {
+              // Still billed below; the user just can't keep it
+              console.error("Failed to store stopped reply:", error);
+            }
+          }
+        } else {
+          if (!reply) {
+            throw emptyReplyError();
+          }
+
+          // Persist before "done" so the client's next turn sees this
+          // exchange
+          if (userId) {
+            saved = await storeReply({
+              userId,
+              conversationId,
+              parentId,
+              message,
+              reply,
+              startTime,
+              regeneration,
+              details: { model: answeredModel, templates },
+              ids: exchangeIds,
+            });
+            conversationId = saved.conversationId;
+          }
+
+          const response: ChatResponse = {
+            response: reply,
+            ...(outputSchema && { data }),
+            templateId,
+            templateIds,
+            conversationId,
+            messageId: saved?.assistantMessageId,
+            userMessageId: saved?.userMessageId,
+            metadata: {
+              provider: provider.name,
+              model: answeredModel,
+              tokensUsed: usage?.totalTokens,
+              processingTime: Date.now() - startTime,
+            },
+          };
+          send({ type: "done", response });
+          close();
+        }
+      } catch (error) {
+        send({ type: "error", ...classifyError(error).toPayload() });
+        close();
+        if (completed) {
+          // The reply is lost, but the model call still has to be paid for
+          await recordExchange(provider, {
+            model: answeredModel,
+            userId,
+            conversationId,
+            message,
+            reply,
+            usage,
+            attempts,
+            reservationId,
+            priorCost: priorCost + extraCost,
+            failed: true,
+          });
+        } else if (reservationId) {
+          // Nothing billable beyond what was already logged
+          await releaseReservation(reservationId);
+        }
+        return;
+      }
+
+      // Bookkeeping happens after the client has the full reply
+      await recordExchange(provider, {
+        model: answeredModel,
+        userId,
+        conversationId,
+        message,
+        reply,
+        usage,
+        attempts,
+        reservationId,
+        priorCost: priorCost + extraCost,
+        cancelled,
+        messageId: saved?.assistantMessageId,
+        userMessageId: saved?.userMessageId,
+        regenerated: Boolean(regeneration),
+        describe,
+      });
+    },
+    cancel() {
+      clientClosed = true;
+      disconnected.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 };
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
+  // Held from the limit check until the real cost is logged
+  let reservationId: string | undefined;
 
   try {
     // Get user session for cost tracking
@@ -53,83 +630,175 @@ export async function POST(request: NextRequest) {
 
     const body: ChatRequest = await request.json();
     const {
-      message,
       templateId,
       templateVariables = {},
       conversationHistory = [],
+      model: requestedModel,
+      stream = false,
+      templates,
+      regenerateMessageId,
+      editMessageId,
     } = body;
+    let { message, conversationId } = body;
 
-    if (!message) {
-      return NextResponse.json(
-        { error: "No message provided" },
-        { status: 400 }
+    // Regenerating and editing work on stored messages, so they need a
+    // stored conversation
+    if ((regenerateMessageId || editMessageId) && (!userId || !conversationId)) {
+      return chatErrorResponse(
+        new ChatRequestError(
+          "invalid_request",
+          "Only messages in a saved conversation can be regenerated or edited"
+        )
       );
     }
 
-    // Estimate cost for this request (rough estimate before actual API calls)
-    // We'll estimate: 1 embedding (~100 tokens), 1 chat completion (~500 input + 200 output tokens),
-    // 2 storage embeddings (~200 tokens), 1 Pinecone query, 2 Pinecone upserts
-    const estimatedEmbeddingTokens = 300; // Total for all embeddings
-    const estimatedInputTokens = 500;
-    const estimatedOutputTokens = 200;
-    const estimatedCost =
-      calculateEmbeddingCost(
-        "text-embedding-3-small",
-        estimatedEmbeddingTokens
-      ) +
-      calculateChatCompletionCost(
-        "gpt-3.5-turbo",
-        estimatedInputTokens,
-        estimatedOutputTokens
-      ) +
-      calculatePineconeCost("query") +
-      calculatePineconeCost("upsert") * 2;
-
-    // Check user limits before proceeding (only for authenticated users)
+    if (templates !== undefined && !isTemplateStack(templates)) {
+      return chatErrorResponse(
+        new ChatRequestError(
+          "invalid_request",
+          `templates must be a list of at most ${MAX_TEMPLATE_STACK} { templateId, variables } entries`
+        )
+      );
+    }
+
+    if (!message && !regenerateMessageId) {
+      return chatErrorResponse(
+        new ChatRequestError("invalid_request", "No message provided")
+      );
+    }
+
+    // Only allowlisted models, so the limit check below is costed with
+    // the chosen model's real pricing
+    const provider = getChatProvider();
+    const defaultModel = getChatModel();
+    const model = requestedModel || defaultModel;
+    if (!isAllowedChatModel(provider, defaultModel, model)) {
+      return chatErrorResponse(
+        new ChatRequestError("unsupported_model", `Unsupported model: ${model}`)
+      );
+    }
+
+    // Signed-in users get history from the database; the client-sent
+    // history is only used for anonymous callers
+    let history = conversationHistory;
+    let conversation: Awaited<ReturnType<typeof getUserConversation>> = null;
+    let regeneration: RegenerationContext | undefined;
+    // Where the new prompt goes in the message tree
+    let parentId: string | undefined;
     if (userId) {
-      const limitCheck = await checkUserLimits(userId, estimatedCost);
-      if (!limitCheck.allowed) {
-        return NextResponse.json(
-          {
-            error: limitCheck.reason || "Daily or monthly limit exceeded",
-            limitExceeded: true,
-            dailyUsage: limitCheck.dailyUsage,
-            dailyLimit: limitCheck.dailyLimit,
-            monthlyUsage: limitCheck.monthlyUsage,
-            monthlyLimit: limitCheck.monthlyLimit,
-          },
-          { status: 429 } // 429 Too Many Requests
-        );
+      history = [];
+      if (conversationId) {
+        conversation = await getUserConversation(userId, conversationId);
+        if (!conversation) {
+          return chatErrorResponse(
+            new ChatRequestError(
+              "not_found",
+              `Conversation not found: ${conversationId}`
+            )
+          );
+        }
+        if (regenerateMessageId) {
+          // Same context as the original reply: the messages before its
+          // prompt
+          regeneration =
+            (await getRegenerationContext(
+              conversation.id,
+              regenerateMessageId
+            )) ?? undefined;
+          if (!regeneration) {
+            return chatErrorResponse(
+              new ChatRequestError(
+                "not_found",
+                `Message not found: ${regenerateMessageId}`
+              )
+            );
+          }
+          message = regeneration.prompt.content;
+          history = regeneration.history;
+        } else if (editMessageId) {
+          // The edited prompt starts a new branch next to the original
+          const edit = await getEditContext(conversation.id, editMessageId);
+          if (!edit) {
+            return chatErrorResponse(
+              new ChatRequestError(
+                "not_found",
+                `Message not found: ${editMessageId}`
+              )
+            );
+          }
+          parentId = edit.parentId;
+          history = edit.history;
+        } else {
+          const branch = await getConversationHistory(conversation.id);
+          history = branch;
+          parentId = branch[branch.length - 1]?.id;
+        }
       }
+    } else {
+      conversationId = undefined;
     }
 
+    // Stored conversations get a title after their first turn and a fresh
+    // overview every few turns; other versions of a reply don't count
+    const describe =
+      Boolean(userId) &&
+      !regeneration &&
+      needsOverview(
+        history.filter((msg) => msg.role === "user").length + 1,
+        conversation
+      );
+
+    const embeddingProvider = getEmbeddingProvider();
+    const embeddingModel = getEmbeddingModel();
+    const vectorStore = getVectorStore();
+
     // Build messages array
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-
-    // Add system message from template if provided
-    if (templateId) {
-      const template = getTemplateById(templateId);
-      if (template) {
-        try {
-          const templateResult = templateEngine.render(
-            template,
-            templateVariables
-          );
-          messages.push({ role: "system", content: templateResult.content });
-        } catch (error) {
-          return NextResponse.json(
-            {
-              error: `Template error: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`,
-            },
-            { status: 400 }
+    const messages: ProviderMessage[] = [];
+    // Set when the template asks for structured (JSON) replies
+    let outputSchema: JsonSchema | undefined;
+
+    // Templates compose into one system prompt in the order given; a
+    // single templateId is a stack of one
+    const templateSelections: TemplateSelection[] =
+      templates ??
+      (templateId ? [{ templateId, variables: templateVariables }] : []);
+    const templateIds =
+      templateSelections.length > 0
+        ? templateSelections.map((selection) => selection.templateId)
+        : undefined;
+
+    if (templateSelections.length > 0) {
+      const stack: TemplateStackEntry[] = [];
+      for (const selection of templateSelections) {
+        const template = getTemplateById(selection.templateId);
+        if (!template) {
+          return chatErrorResponse(
+            new ChatRequestError(
+              "not_found",
+              `Template not found: ${selection.templateId}`
+            )
           );
         }
-      } else {
-        return NextResponse.json(
-          { error: `Template not found: ${templateId}` },
-          { status: 404 }
+        stack.push({ template, variables: selection.variables ?? {} });
+      }
+
+      try {
+        const composed = templateEngine.compose(stack);
+        outputSchema = composed.outputSchema;
+        messages.push({
+          role: "system",
+          content: outputSchema
+            ? `${composed.content}\n\n${buildSchemaInstruction(outputSchema)}`
+            : composed.content,
+        });
+      } catch (error) {
+        return chatErrorResponse(
+          new ChatRequestError(
+            "invalid_request",
+            `Template error: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          )
         );
       }
     } else {
@@ -146,51 +815,67 @@ export async function POST(request: NextRequest) {
       role: "user" | "assistant";
       score: number;
     }> = [];
+    // Cost logged before the reservation is taken (RAG lookup, history
+    // summary)
+    let preflightCost = 0;
+    // Those calls are skipped when their own estimate would already exceed
+    // the user's limits
+    const canSpend = async (estimatedCost: number) =>
+      !userId || (await checkUserLimits(userId, estimatedCost)).allowed;
 
-    try {
-      // Generate embedding for the user's message
-      const openai = getOpenAIClient();
-      const embeddingResponse = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: message,
-      });
+    // Retrieval is scoped to the caller's own messages; anonymous callers
+    // get no RAG context at all
+    if (
+      userId &&
+      vectorStore &&
+      (await canSpend(
+        calculateEmbeddingCost(
+          embeddingModel,
+          countTokens(message, embeddingModel),
+          embeddingProvider.service
+        ) + calculateVectorStoreCost(vectorStore.service, "query")
+      ))
+    ) {
+      try {
+        // Generate embedding for the user's message (cached when the same
+        // text was embedded before)
+        const embeddingResult = await embedWithCache([message]);
+        const userMessageEmbedding = embeddingResult.embeddings[0];
 
-      const userMessageEmbedding = embeddingResponse.data[0]?.embedding;
-      const embeddingUsage = embeddingResponse.usage;
+        // Log embedding usage
+        preflightCost += await logCachedEmbedding([message], embeddingResult, {
+          userId,
+          conversationId,
+          service: embeddingProvider.service,
+        });
 
-      // Log embedding usage
-      if (embeddingUsage?.total_tokens && userId) {
-        await logEmbedding(
-          "text-embedding-3-small",
-          embeddingUsage.total_tokens,
-          { userId }
-        );
-      }
+        if (userMessageEmbedding) {
+          // Query the vector store for similar past messages (RAG)
+          const similarMessagesResults = await querySimilarMessages(
+            userMessageEmbedding,
+            {
+              userId,
+              topK: 5, // Get top 5 similar messages
+              minScore: 0.7, // Only include messages with similarity score >= 0.7
+            }
+          );
 
-      if (userMessageEmbedding) {
-        // Query Pinecone for similar past messages (RAG)
-        const similarMessagesResults = await querySimilarMessages(
-          userMessageEmbedding,
-          {
-            topK: 5, // Get top 5 similar messages
-            minScore: 0.7, // Only include messages with similarity score >= 0.7
-          }
-        );
+          // Log vector store query
+          preflightCost += await logVectorStoreQuery(vectorStore.service, {
+            userId,
+            conversationId,
+          });
 
-        // Log Pinecone query
-        if (userId) {
-          await logPineconeQuery({ userId });
+          // Format similar messages for context
+          similarMessages = similarMessagesResults.map((match) => ({
+            content: match.content,
+            role: match.role,
+            score: match.score,
+          }));
         }
-
-        // Format similar messages for context
-        similarMessages = similarMessagesResults.map((match) => ({
-          content: match.content,
-          role: match.role,
-          score: match.score,
-        }));
+      } catch {
+        // If the vector store fails, continue without RAG context - chat will still work
       }
-    } catch {
-      // If Pinecone fails, continue without RAG context - chat will still work
     }
 
     // Build context from similar messages if available
@@ -208,151 +893,237 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Add conversation history
-    conversationHistory.forEach((msg) => {
-      messages.push({
-        role: msg.role,
-        content: msg.content,
-      });
+    // Add conversation history, trimmed to the model's context window;
+    // system, template and RAG messages are kept intact
+    const userMessage: ProviderMessage = { role: "user", content: message };
+    const fittedHistory = await fitHistoryToContext({
+      provider,
+      model,
+      summaryModel: defaultModel,
+      fixedMessages: [...messages, userMessage],
+      history,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      userId,
+      conversationId: conversation?.id,
+      signal: request.signal,
+      canSpend,
     });
+    preflightCost += fittedHistory.summaryCost;
+    messages.push(...fittedHistory.messages);
 
     // Add current user message
-    messages.push({ role: "user", content: message });
+    messages.push(userMessage);
 
-    const openai = getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages,
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
+    // Structured replies are a single JSON answer, so no tool rounds
+    const tools = outputSchema
+      ? []
+      : getAvailableTools({ userId, conversationId });
+
+    // Estimate the worst case from the fully assembled prompt, with the
+    // reply bounded by MAX_OUTPUT_TOKENS. The RAG lookup above has already
+    // run by now, since its context is part of the prompt. A fallback model
+    // may end up answering, so the priciest model in the chain is assumed
+    const candidateModels = [
+      model,
+      ...getFallbackModels(provider, defaultModel, model),
+    ];
+    const estimates = candidateModels.map((candidate) =>
+      estimateRequestCost({
+        model: candidate,
+        service: provider.service,
+        messages,
+        tools: tools.map((tool) => tool.definition),
+        maxTokens: MAX_OUTPUT_TOKENS,
+        message,
+        // RAG only runs for signed-in users
+        ...(userId && vectorStore
+          ? {
+              embeddingModel,
+              embeddingService: embeddingProvider.service,
+              vectorStoreService: vectorStore.service,
+            }
+          : {}),
+      })
+    );
+    const estimate = estimates.reduce((max, current) =>
+      current.cost > max.cost ? current : max
+    );
 
-    const reply = completion.choices[0]?.message?.content;
-    if (!reply) {
-      throw new Error("No reply from model");
+    // Reserve the estimate, plus the structured-output repairs or tool
+    // rounds allowed, against the user's limits before calling the model,
+    // so concurrent requests can't all pass the check (only for
+    // authenticated users). Repairs and tool rounds resend the prompt, so
+    // each is costed like the first attempt; the tool loop stops offering
+    // tools before it would spend more than this
+    const reservedCost = outputSchema
+      ? estimate.cost * (1 + MAX_REPAIR_ATTEMPTS)
+      : estimate.cost * (1 + (tools.length > 0 ? RESERVED_TOOL_ROUNDS : 0));
+    if (userId) {
+      const limitCheck = await reserveCost(userId, reservedCost);
+      if (!limitCheck.allowed) {
+        return chatErrorResponse(
+          new ChatRequestError(
+            "limit_exceeded",
+            limitCheck.reason || "Daily or monthly limit exceeded",
+            {
+              retryAfter: limitCheck.resetsAt
+                ? Math.ceil((limitCheck.resetsAt.getTime() - Date.now()) / 1000)
+                : undefined,
+              details: {
+                limitExceeded: true,
+                dailyUsage: limitCheck.dailyUsage,
+                dailyLimit: limitCheck.dailyLimit,
+                monthlyUsage: limitCheck.monthlyUsage,
+                monthlyLimit: limitCheck.monthlyLimit,
+              },
+            }
+          )
+        );
+      }
+      reservationId = limitCheck.reservationId;
     }
 
-    // Log chat completion usage
-    if (completion.usage && userId) {
-      await logChatCompletion(
-        "gpt-3.5-turbo",
-        completion.usage.prompt_tokens || 0,
-        completion.usage.completion_tokens || 0,
-        { userId }
-      );
+    if (stream) {
+      return streamChatCompletion(provider, messages, tools, {
+        model,
+        userId,
+        conversationId,
+        message,
+        templateId,
+        templateIds,
+        templates: templateSelections,
+        outputSchema,
+        costBudget: reservedCost,
+        pricedModels: candidateModels,
+        startTime,
+        reservationId,
+        priorCost: preflightCost,
+        signal: request.signal,
+        parentId,
+        regeneration,
+        // A new exchange's IDs are chosen up front so a stopped reply
+        // can be kept or discarded by ID
+        exchangeIds:
+          userId && !regeneration && !editMessageId
+            ? {
+                conversationId: conversationId ?? randomUUID(),
+                userMessageId: randomUUID(),
+                assistantMessageId: randomUUID(),
+              }
+            : undefined,
+        describe,
+      });
     }
 
-    // Store messages in Pinecone for future RAG (non-blocking)
-    try {
-      const timestamp = new Date().toISOString();
-      const userMessageId = `user-${Date.now()}-${Math.random()
-        .toString(36)
-        .slice(2, 11)}`;
-      const assistantMessageId = `assistant-${Date.now()}-${Math.random()
-        .toString(36)
-        .slice(2, 11)}`;
-
-      // Generate embeddings for both messages
-      const openai = getOpenAIClient();
-      const [userEmbeddingResponse, assistantEmbeddingResponse] =
-        await Promise.all([
-          openai.embeddings.create({
-            model: "text-embedding-3-small",
-            input: message,
-          }),
-          openai.embeddings.create({
-            model: "text-embedding-3-small",
-            input: reply,
-          }),
-        ]);
-
-      const userEmbedding = userEmbeddingResponse.data[0]?.embedding;
-      const assistantEmbedding = assistantEmbeddingResponse.data[0]?.embedding;
-
-      // Log storage embeddings
-      if (userId) {
-        const userEmbeddingUsage = userEmbeddingResponse.usage;
-        const assistantEmbeddingUsage = assistantEmbeddingResponse.usage;
-        const totalEmbeddingTokens =
-          (userEmbeddingUsage?.total_tokens || 0) +
-          (assistantEmbeddingUsage?.total_tokens || 0);
-
-        if (totalEmbeddingTokens > 0) {
-          // Log as two separate embedding calls
-          if (userEmbeddingUsage?.total_tokens) {
-            await logEmbedding(
-              "text-embedding-3-small",
-              userEmbeddingUsage.total_tokens,
-              { userId }
-            );
-          }
-          if (assistantEmbeddingUsage?.total_tokens) {
-            await logEmbedding(
-              "text-embedding-3-small",
-              assistantEmbeddingUsage.total_tokens,
-              { userId }
-            );
-          }
-        }
-      }
+    const completion = await generateReply(provider, messages, tools, {
+      model,
+      userId,
+      conversationId,
+      outputSchema,
+      costBudget: reservedCost,
+      pricedModels: candidateModels,
+      signal: request.signal,
+    });
 
-      // Store both messages in Pinecone
-      if (userEmbedding) {
-        await storeMessageEmbedding(userMessageId, userEmbedding, {
-          content: message,
-          role: "user",
-          timestamp,
-          messageId: userMessageId,
-        });
+    if (completion.cancelled) {
+      // Log what the aborted call cost; nothing is stored
+      await recordExchange(provider, {
+        model: completion.model,
+        userId,
+        conversationId,
+        message,
+        reply: completion.content,
+        usage: completion.usage,
+        attempts: completion.attempts,
+        reservationId,
+        priorCost: preflightCost + completion.extraCost,
+        cancelled: true,
+      });
+      return chatErrorResponse(cancelledError());
+    }
 
-        // Log Pinecone upsert
-        if (userId) {
-          await logPineconeUpsert({ userId });
-        }
+    const reply = completion.content;
+    let saved: SavedExchange | undefined;
+    try {
+      if (!reply) {
+        throw emptyReplyError();
       }
-
-      if (assistantEmbedding) {
-        await storeMessageEmbedding(assistantMessageId, assistantEmbedding, {
-          content: reply,
-          role: "assistant",
-          timestamp,
-          messageId: assistantMessageId,
+      if (userId) {
+        saved = await storeReply({
+          userId,
+          conversationId,
+          parentId,
+          message,
+          reply,
+          startTime,
+          regeneration,
+          details: { model: completion.model, templates: templateSelections },
         });
-
-        // Log Pinecone upsert
-        if (userId) {
-          await logPineconeUpsert({ userId });
-        }
+        conversationId = saved.conversationId;
       }
-    } catch {
-      // If Pinecone storage fails, continue - chat response is still returned
-    }
-
-    // Update user cost limits after all operations (non-blocking)
-    if (userId && completion.usage) {
-      // Update limits asynchronously (don't wait)
-      // This recalculates from database, so no need to pass cost
-      updateUserCostLimits(userId).catch((error) => {
-        console.error("Failed to update user cost limits:", error);
+    } catch (error) {
+      // The reply is lost, but the model call still has to be paid for;
+      // this settles the reservation, so it isn't released below
+      await recordExchange(provider, {
+        model: completion.model,
+        userId,
+        conversationId,
+        message,
+        reply,
+        usage: completion.usage,
+        attempts: completion.attempts,
+        reservationId,
+        priorCost: preflightCost + completion.extraCost,
+        failed: true,
       });
+      reservationId = undefined;
+      throw error;
     }
 
+    await recordExchange(provider, {
+      model: completion.model,
+      userId,
+      conversationId,
+      message,
+      reply,
+      usage: completion.usage,
+      attempts: completion.attempts,
+      reservationId,
+      priorCost: preflightCost + completion.extraCost,
+      messageId: saved?.assistantMessageId,
+      userMessageId: saved?.userMessageId,
+      regenerated: Boolean(regeneration),
+      describe,
+    });
+
     const processingTime = Date.now() - startTime;
     const response: ChatResponse = {
       response: reply,
+      ...(outputSchema && { data: completion.data }),
       templateId,
+      templateIds,
+      conversationId,
+      messageId: saved?.assistantMessageId,
+      userMessageId: saved?.userMessageId,
       metadata: {
-        model: "gpt-3.5-turbo",
-        tokensUsed: completion.usage?.total_tokens,
+        provider: provider.name,
+        model: completion.model,
+        tokensUsed: completion.usage?.totalTokens,
         processingTime,
       },
     };
 
     return NextResponse.json(response);
-  } catch {
-    return NextResponse.json(
-      { error: "Error communicating with OpenAI API." },
-      { status: 500 }
-    );
+  } catch (error) {
+    // The request failed before anything billable finished, so free the
+    // reserved budget
+    if (reservationId) {
+      await releaseReservation(reservationId);
+    }
+    // Aborted before the model was called (e.g. during the RAG lookup)
+    if (request.signal.aborted) {
+      return chatErrorResponse(cancelledError());
+    }
+    return chatErrorResponse(classifyError(error));
   }
 }
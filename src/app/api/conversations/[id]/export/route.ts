@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getConversationExport } from "@/lib/conversations";
+import {
+  EXPORT_FORMATS,
+  getExportContentType,
+  getExportFileName,
+  isExportFormat,
+  renderExport,
+} from "@/lib/export";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Download one conversation
+ * Query: format - markdown (default), json or html
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const format = request.nextUrl.searchParams.get("format") ?? "markdown";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const conversation = await getConversationExport(session.user.id, id);
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(renderExport(conversation, format), {
+      headers: {
+        "Content-Type": getExportContentType(format),
+        "Content-Disposition": `attachment; filename="${getExportFileName(
+          conversation,
+          format
+        )}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export conversation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to export conversation",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getEmbeddingProvider } from "@/lib/chatProviders";
+import { needsOverview } from "@/lib/conversationOverview";
+import {
+  discardStoppedReply,
+  getConversationHistory,
+  getUserConversation,
+  keepStoppedReply,
+  selectVersion,
+} from "@/lib/conversations";
+import { enqueueJob } from "@/lib/jobs";
+import { getVectorStore } from "@/lib/vectorStore";
+
+interface RouteContext {
+  params: Promise<{ id: string; messageId: string }>;
+}
+
+/**
+ * Select a version of a message, switching to the branch it starts, or
+ * keep a stopped reply; later turns use that branch as history
+ * Body: { selected: true } or { stopped: false }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { id, messageId } = await params;
+
+    if (body.stopped === false) {
+      const userId = session.user.id;
+      const kept = await keepStoppedReply(userId, id, messageId);
+      if (!kept) {
+        return NextResponse.json(
+          { error: "Stopped reply not found" },
+          { status: 404 }
+        );
+      }
+
+      // A kept reply gets the bookkeeping of a finished one: a new title
+      // and overview when due, and indexing for RAG. Its usage was logged
+      // when it was stopped
+      const [conversation, history] = await Promise.all([
+        getUserConversation(userId, id),
+        getConversationHistory(id),
+      ]);
+      const turn = history.filter((msg) => msg.role === "user").length;
+      if (needsOverview(turn, conversation)) {
+        await enqueueJob("describe-conversation", {
+          userId,
+          conversationId: id,
+        }).catch((error) => {
+          console.error("Failed to queue conversation overview:", error);
+        });
+      }
+      if (getVectorStore()) {
+        await enqueueJob("index-exchange", {
+          userId,
+          conversationId: id,
+          message: kept.prompt,
+          reply: kept.reply,
+          userMessageId: kept.promptId,
+          assistantMessageId: messageId,
+          timestamp: new Date().toISOString(),
+          embeddingService: getEmbeddingProvider().service,
+          settledCost: 0,
+        }).catch((error) => {
+          console.error("Failed to queue message indexing:", error);
+        });
+      }
+
+      return NextResponse.json({ id: messageId, stopped: false });
+    }
+
+    if (body.selected !== true) {
+      return NextResponse.json(
+        { error: "Body must be { selected: true } or { stopped: false }" },
+        { status: 400 }
+      );
+    }
+
+    const selected = await selectVersion(session.user.id, id, messageId);
+
+    if (!selected) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: messageId, selected: true });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid request format" },
+        { status: 400 }
+      );
+    }
+    console.error("Failed to update message:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to update message",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discard a stopped reply the user didn't keep
+ * Only stopped replies can be deleted; the conversation goes too when
+ * nothing else is in it
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, messageId } = await params;
+    const discarded = await discardStoppedReply(session.user.id, id, messageId);
+
+    if (!discarded) {
+      return NextResponse.json(
+        { error: "Stopped reply not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(discarded);
+  } catch (error) {
+    console.error("Failed to discard stopped reply:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to discard stopped reply",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  deleteConversation,
+  getConversationWithMessages,
+  renameConversation,
+} from "@/lib/conversations";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Build a 500 response, with details in development only
+ */
+const serverError = (message: string, error: unknown) => {
+  console.error(`${message}:`, error);
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return NextResponse.json(
+    {
+      error: message,
+      details: process.env.NODE_ENV === "development" ? errorMessage : undefined,
+    },
+    { status: 500 }
+  );
+};
+
+/**
+ * Get a conversation with its messages
+ * Query: messageId - show the branch through that message instead of the
+ * active one
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const messageId = request.nextUrl.searchParams.get("messageId");
+    const conversation = await getConversationWithMessages(
+      session.user.id,
+      id,
+      messageId ?? undefined
+    );
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    return serverError("Failed to get conversation", error);
+  }
+}
+
+/**
+ * Rename a conversation
+ * Body: { title: string | null } - null or an empty string clears the title,
+ * so an automatic one can take its place
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    if (body.title !== null && typeof body.title !== "string") {
+      return NextResponse.json(
+        { error: "Title must be a string or null" },
+        { status: 400 }
+      );
+    }
+
+    const title = body.title?.trim() || null;
+    if (title && title.length > MAX_TITLE_LENGTH) {
+      return NextResponse.json(
+        { error: `Title must be at most ${MAX_TITLE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const renamed = await renameConversation(session.user.id, id, title);
+
+    if (!renamed) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id, title });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid request format" },
+        { status: 400 }
+      );
+    }
+    return serverError("Failed to rename conversation", error);
+  }
+}
+
+/**
+ * Delete a conversation and, via cascade, its messages
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteConversation(session.user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    return serverError("Failed to delete conversation", error);
+  }
+}
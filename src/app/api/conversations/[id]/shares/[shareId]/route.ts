@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { revokeConversationShare } from "@/lib/shares";
+
+interface RouteContext {
+  params: Promise<{ id: string; shareId: string }>;
+}
+
+/**
+ * Revoke a share link
+ * The record is kept, marked revoked, so the owner can see it was shared
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, shareId } = await params;
+    if (!(await revokeConversationShare(session.user.id, id, shareId))) {
+      return NextResponse.json(
+        { error: "Active share link not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: shareId, revoked: true });
+  } catch (error) {
+    console.error("Failed to revoke share link:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to revoke share link",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
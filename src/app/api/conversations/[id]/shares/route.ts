@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserConversation } from "@/lib/conversations";
+import {
+  createConversationShare,
+  listConversationShares,
+  ShareRequestError,
+  toShareSummary,
+} from "@/lib/shares";
+import { CreateShareRequest, ShareListResponse } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * List a conversation's share links, including revoked and expired ones
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await getUserConversation(session.user.id, id))) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    const shares = await listConversationShares(session.user.id, id);
+    const response: ShareListResponse = {
+      shares: shares.map(toShareSummary),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to list share links:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to list share links",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a public read-only link to the conversation's active branch
+ * Body: CreateShareRequest
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: CreateShareRequest = await request.json();
+    const { expiresAt, hideTemplateVariables, redactedMessageIds } = body;
+    if (
+      expiresAt !== undefined &&
+      expiresAt !== null &&
+      typeof expiresAt !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "expiresAt must be an ISO date string or null" },
+        { status: 400 }
+      );
+    }
+    if (
+      hideTemplateVariables !== undefined &&
+      typeof hideTemplateVariables !== "boolean"
+    ) {
+      return NextResponse.json(
+        { error: "hideTemplateVariables must be a boolean" },
+        { status: 400 }
+      );
+    }
+    if (
+      redactedMessageIds !== undefined &&
+      (!Array.isArray(redactedMessageIds) ||
+        !redactedMessageIds.every((id) => typeof id === "string"))
+    ) {
+      return NextResponse.json(
+        { error: "redactedMessageIds must be an array of message IDs" },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const share = await createConversationShare(session.user.id, id, {
+      expiresAt,
+      hideTemplateVariables,
+      redactedMessageIds,
+    });
+
+    if (!share) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toShareSummary(share), { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid request format" },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ShareRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to create share link:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to create share link",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  EXPORT_FORMATS,
+  isExportFormat,
+  streamConversationsZip,
+} from "@/lib/export";
+
+/**
+ * Download every conversation as a zip, one file each
+ * Query: format - markdown (default), json or html
+ * The archive is streamed as it's built, one conversation at a time
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const format = request.nextUrl.searchParams.get("format") ?? "markdown";
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(streamConversationsZip(session.user.id, format), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="conversations-${date}-${format}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export conversations:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to export conversations",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  ImportInProgressError,
+  resumeImport,
+  toImportSummary,
+} from "@/lib/imports";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Continue an unfinished import from where it stopped
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const importJob = await resumeImport(session.user.id, id);
+    if (!importJob) {
+      return NextResponse.json(
+        { error: "Unfinished import not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toImportSummary(importJob), { status: 202 });
+  } catch (error) {
+    if (error instanceof ImportInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to resume import:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to resume import",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserImport, toImportSummary } from "@/lib/imports";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Progress of one of the signed-in user's imports
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const importJob = await getUserImport(session.user.id, id);
+    if (!importJob) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toImportSummary(importJob));
+  } catch (error) {
+    console.error("Failed to fetch import:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to fetch import",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  createImport,
+  ImportFormatError,
+  listUserImports,
+  MAX_IMPORT_BYTES,
+  toImportSummary,
+} from "@/lib/imports";
+import { CreateImportRequest, ImportListResponse } from "@/types";
+
+const tooLargeResponse = () =>
+  NextResponse.json(
+    {
+      error: `The file is too large (limit ${MAX_IMPORT_BYTES / 1024 / 1024} MB)`,
+    },
+    { status: 413 }
+  );
+
+/**
+ * Read a request body as text, giving up as soon as it passes maxBytes
+ * Returns null when it's too large; the header can be missing (chunked
+ * uploads) or wrong, so bytes are counted as they arrive
+ */
+const readBodyWithin = async (
+  request: NextRequest,
+  maxBytes: number
+): Promise<string | null> => {
+  if (!request.body) {
+    return "";
+  }
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * List the signed-in user's imports, newest first
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const imports = await listUserImports(session.user.id);
+    const response: ImportListResponse = {
+      imports: imports.map(toImportSummary),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to list imports:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to list imports",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start importing conversations from a ChatGPT conversations.json or one
+ * of our JSON exports
+ * Body: CreateImportRequest, at most MAX_IMPORT_BYTES. The import runs in
+ * the background; poll /api/imports/[id] for progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (Number(request.headers.get("content-length")) > MAX_IMPORT_BYTES) {
+      return tooLargeResponse();
+    }
+    const text = await readBodyWithin(request, MAX_IMPORT_BYTES);
+    if (text === null) {
+      return tooLargeResponse();
+    }
+
+    const body: CreateImportRequest | null = JSON.parse(text);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Invalid request format" },
+        { status: 400 }
+      );
+    }
+    if (body.data === undefined) {
+      return NextResponse.json({ error: "data is required" }, { status: 400 });
+    }
+    if (body.fileName !== undefined && typeof body.fileName !== "string") {
+      return NextResponse.json(
+        { error: "fileName must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const importJob = await createImport(session.user.id, {
+      data: body.data,
+      fileName: body.fileName,
+      backfillEmbeddings: body.backfillEmbeddings === true,
+    });
+    return NextResponse.json(toImportSummary(importJob), { status: 202 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid request format" },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ImportFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Failed to start import:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to start import",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import {
+  getChatModel,
+  getChatModelOptions,
+  getChatProvider,
+} from "@/lib/chatProviders";
+import { ChatModelsResponse } from "@/types";
+
+export async function GET() {
+  try {
+    const provider = getChatProvider();
+    const defaultModel = getChatModel();
+
+    const response: ChatModelsResponse = {
+      provider: provider.name,
+      defaultModel,
+      models: getChatModelOptions(provider, defaultModel),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to list chat models:", error);
+    return NextResponse.json(
+      { error: "Failed to list chat models" },
+      { status: 500 }
+    );
+  }
+}
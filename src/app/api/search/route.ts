@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { enqueueJob } from "@/lib/jobs";
+import { checkUserLimits } from "@/lib/limitChecker";
+import { searchMessages } from "@/lib/messageSearch";
+import { MessageSearchResponse } from "@/types";
+
+const DEFAULT_RESULTS = 20;
+const MAX_RESULTS = 50;
+const MAX_QUERY_LENGTH = 500;
+
+/**
+ * Search the signed-in user's stored messages
+ * Query: q - search text (websearch syntax: "phrases", -exclusions, or)
+ *        limit - maximum results, 1-50 (default 20)
+ *        semantic=true - also return similar messages from the vector
+ *        store; the query embedding is billed to the user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const params = request.nextUrl.searchParams;
+    const query = params.get("q")?.trim() ?? "";
+    if (!query) {
+      return NextResponse.json({ error: "q is required" }, { status: 400 });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be at most ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(params.get("limit") ?? DEFAULT_RESULTS);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_RESULTS}` },
+        { status: 400 }
+      );
+    }
+
+    // Semantic hits cost an embedding, so they're skipped over the limit
+    const semantic =
+      params.get("semantic") === "true" &&
+      (await checkUserLimits(userId)).allowed;
+
+    const { results, cost, semanticFailed } = await searchMessages(
+      userId,
+      query,
+      { limit, semantic }
+    );
+
+    // A failed semantic search may still have billed its embedding
+    if (cost > 0 || semanticFailed) {
+      await enqueueJob("update-cost-limits", { userId }).catch((error) => {
+        console.error("Failed to queue cost limit update:", error);
+      });
+    }
+
+    const response: MessageSearchResponse = {
+      results,
+      ...(semanticFailed && { semanticFailed }),
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Failed to search messages:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      {
+        error: "Failed to search messages",
+        details:
+          process.env.NODE_ENV === "development" ? errorMessage : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
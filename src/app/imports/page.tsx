@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation";
+import { getServerSession } from "next-auth";
+import { ConversationImporter } from "@/components";
+import { authOptions } from "@/lib/auth";
+
+export default async function ImportsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    redirect("/login?callbackUrl=/imports");
+  }
+
+  return <ConversationImporter />;
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { SharedConversationView } from "@/components";
+import { getSharedConversation } from "@/lib/shares";
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const { token } = await params;
+  const conversation = await getSharedConversation(token);
+  return {
+    title: conversation?.title || "Shared conversation",
+    // Links are for the people they're sent to
+    robots: { index: false, follow: false },
+  };
+}
+
+// Public: no session needed. Unknown, revoked and expired links all 404
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const conversation = await getSharedConversation(token);
+
+  if (!conversation) {
+    notFound();
+  }
+
+  return <SharedConversationView conversation={conversation} />;
+}
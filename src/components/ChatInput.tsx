@@ -6,11 +6,12 @@ import { Spinner } from "./Spinner";
 // Props interface moved above component for better readability
 interface ChatInputComponentProps {
   onSendMessage: ChatInputProps["onSendMessage"];
+  onStop?: ChatInputProps["onStop"];
   isLoading: ChatInputProps["isLoading"];
   disabled?: ChatInputProps["disabled"];
 }
 
-export const ChatInput = ({ onSendMessage, isLoading, disabled = false }: ChatInputComponentProps) => {
+export const ChatInput = ({ onSendMessage, onStop, isLoading, disabled = false }: ChatInputComponentProps) => {
   const [inputValue, setInputValue] = useState("");
 
   const handleSubmit = async () => {
@@ -50,38 +51,49 @@ export const ChatInput = ({ onSendMessage, isLoading, disabled = false }: ChatIn
             target.style.height = `${Math.min(target.scrollHeight, 120)}px`;
           }}
         />
-        <button
-          onClick={handleSubmit}
-          disabled={!inputValue.trim() || isLoading || disabled}
-          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-2 text-white font-medium shadow-lg hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-lg"
-        >
-          {/* Shimmer effect */}
-          <div className="absolute inset-0 -top-1 -left-1 bg-gradient-to-r from-transparent via-white/20 to-transparent opacity-0 group-hover:opacity-100 group-hover:animate-pulse transition-opacity duration-300"></div>
+        {isLoading && onStop ? (
+          <button
+            onClick={onStop}
+            className="flex items-center justify-center space-x-2 rounded-lg bg-gray-600 px-6 py-2 text-white font-medium shadow-lg hover:bg-red-600 transition-colors duration-200"
+            aria-label="Stop generating"
+          >
+            <span className="w-3 h-3 rounded-sm bg-white" />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={!inputValue.trim() || isLoading || disabled}
+            className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-2 text-white font-medium shadow-lg hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105 hover:shadow-xl disabled:hover:scale-100 disabled:hover:shadow-lg"
+          >
+            {/* Shimmer effect */}
+            <div className="absolute inset-0 -top-1 -left-1 bg-gradient-to-r from-transparent via-white/20 to-transparent opacity-0 group-hover:opacity-100 group-hover:animate-pulse transition-opacity duration-300"></div>
           
-          {/* Button content */}
-          <div className="relative flex items-center justify-center space-x-2">
-            {isLoading ? (
-              <Spinner size="sm" className="border-white border-t-transparent" />
-            ) : (
-              <>
-                <svg 
-                  className="w-4 h-4 transition-transform duration-200 group-hover:translate-x-0.5" 
-                  fill="none" 
-                  stroke="currentColor" 
-                  viewBox="0 0 24 24"
-                >
-                  <path 
-                    strokeLinecap="round" 
-                    strokeLinejoin="round" 
-                    strokeWidth={2} 
-                    d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" 
-                  />
-                </svg>
-                <span>Send</span>
-              </>
-            )}
-          </div>
-        </button>
+            {/* Button content */}
+            <div className="relative flex items-center justify-center space-x-2">
+              {isLoading ? (
+                <Spinner size="sm" className="border-white border-t-transparent" />
+              ) : (
+                <>
+                  <svg 
+                    className="w-4 h-4 transition-transform duration-200 group-hover:translate-x-0.5" 
+                    fill="none" 
+                    stroke="currentColor" 
+                    viewBox="0 0 24 24"
+                  >
+                    <path 
+                      strokeLinecap="round" 
+                      strokeLinejoin="round" 
+                      strokeWidth={2} 
+                      d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" 
+                    />
+                  </svg>
+                  <span>Send</span>
+                </>
+              )}
+            </div>
+          </button>
+        )}
       </div>
     </div>
   );
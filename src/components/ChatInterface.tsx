@@ -4,15 +4,89 @@ import { useState, useEffect } from "react";
 import { useSession, signOut } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { ChatInterfaceProps, AuthStatus } from "@/types";
+import { ChatInterfaceProps, AuthStatus, ChatError } from "@/types";
 import { useChat } from "@/hooks/useChat";
 import { useToast } from "@/hooks/useToast";
 import { MessageList } from "./MessageList";
 import { ChatInput } from "./ChatInput";
 import { TemplateSelector } from "./TemplateSelector";
 import { ToastContainer } from "./ToastContainer";
+import { ToastType } from "./Toast";
 import { Spinner } from "./Spinner";
 import { UsageStats } from "./UsageStats";
+import { ConversationSidebar } from "./ConversationSidebar";
+import { ModelSelector } from "./ModelSelector";
+import { SharePanel } from "./SharePanel";
+
+/**
+ * Format a retry-after hint in seconds as a short wait
+ */
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+};
+
+/**
+ * Toast for a failed chat request, specific to the error code
+ * Waiting or shortening the conversation fixes warnings; errors need
+ * someone to act
+ */
+const getErrorToast = (
+  error: ChatError
+): { message: string; type: ToastType } => {
+  const wait =
+    error.retryAfter !== undefined ? formatWait(error.retryAfter) : undefined;
+
+  switch (error.code) {
+    case "limit_exceeded":
+      return {
+        message: wait
+          ? `${error.error}. Your limit resets in ${wait}.`
+          : error.error,
+        type: "warning",
+      };
+    case "rate_limited":
+      return {
+        message: `The model provider is busy. Try again in ${
+          wait ?? "a moment"
+        }.`,
+        type: "warning",
+      };
+    case "context_length_exceeded":
+      return { message: error.error, type: "warning" };
+    case "provider_unavailable":
+      return {
+        message: `The model provider is unavailable. Try again in ${
+          wait ?? "a few minutes"
+        }.`,
+        type: "error",
+      };
+    case "provider_timeout":
+      return {
+        message: "The model took too long to respond. Try again.",
+        type: "error",
+      };
+    case "provider_auth":
+      return {
+        message:
+          "The server can't authenticate with the model provider. Contact the administrator.",
+        type: "error",
+      };
+    case "unsupported_model":
+      return {
+        message: `${error.error}. Pick another model.`,
+        type: "warning",
+      };
+    case "internal_error":
+      return {
+        message: "Something went wrong on our side. Try again.",
+        type: "error",
+      };
+    default:
+      return { message: error.error, type: "error" };
+  }
+};
 
 // Props interface moved above component for better readability
 interface ChatInterfaceComponentProps {
@@ -27,26 +101,91 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
     isLoading, 
     error, 
     sendMessage, 
+    stopGeneration,
+    keepStoppedReply,
+    discardStoppedReply,
+    regenerateMessage,
+    editMessage,
+    selectVersion,
     clearMessages, 
-    selectedTemplateId, 
-    updateTemplate 
+    conversationId,
+    loadConversation,
+    selectedModel,
+    updateModel,
+    selectedTemplates, 
+    updateTemplates 
   } = useChat();
   
-  const { toasts, showError, removeToast } = useToast();
+  const { toasts, showToast, showError, removeToast } = useToast();
   const [showTemplates, setShowTemplates] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [refreshUsage, setRefreshUsage] = useState(0);
+  const [refreshConversations, setRefreshConversations] = useState(0);
   const [previousIsLoading, setPreviousIsLoading] = useState(false);
+  // Message a search result jumped to; cleared by the next turn
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string>();
 
   const handleLogout = async () => {
     await signOut({ callbackUrl: "/login" });
   };
 
+  const handleSelectConversation = async (id: string, messageId?: string) => {
+    if ((id === conversationId && !messageId) || isLoading) return;
+    try {
+      await loadConversation(id, messageId);
+      setHighlightedMessageId(messageId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to load conversation", 7000);
+    }
+  };
+
+  const handleKeepStopped = async (messageId: string) => {
+    try {
+      await keepStoppedReply(messageId);
+      setRefreshConversations((prev) => prev + 1);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to save reply", 7000);
+    }
+  };
+
+  const handleRegenerate = async (messageId: string) => {
+    try {
+      await regenerateMessage(messageId);
+    } catch {
+      // Failures surface through the error toast
+    }
+  };
+
+  const handleEdit = async (messageId: string, content: string) => {
+    try {
+      await editMessage(messageId, content);
+    } catch {
+      // Failures surface through the error toast
+    }
+  };
+
+  const handleSelectVersion = async (messageId: string, versionId: string) => {
+    try {
+      await selectVersion(messageId, versionId);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to switch version", 7000);
+    }
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    // Deleting the open conversation leaves an empty chat behind
+    if (id === conversationId) {
+      clearMessages();
+    }
+  };
+
   // Refresh usage stats when request starts (immediate feedback)
   useEffect(() => {
     if (isLoading && !previousIsLoading) {
       // Request just started - refresh immediately to show current state
       setRefreshUsage((prev) => prev + 1);
+      setHighlightedMessageId(undefined);
     }
     setPreviousIsLoading(isLoading);
   }, [isLoading, previousIsLoading]);
@@ -58,6 +197,8 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
       const timer = setTimeout(() => {
         setRefreshUsage((prev) => prev + 1);
       }, 1500); // Slightly longer delay to ensure all cost tracking is done
+      // The exchange is already stored, so the sidebar can refresh right away
+      setRefreshConversations((prev) => prev + 1);
       return () => clearTimeout(timer);
     }
   }, [isLoading, previousIsLoading, messages.length]);
@@ -65,9 +206,10 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
   // Show toast notification when error occurs
   useEffect(() => {
     if (error) {
-      showError(error, 7000); // Show error for 7 seconds
+      const { message, type } = getErrorToast(error);
+      showToast(message, type, 7000); // Show for 7 seconds
     }
-  }, [error, showError]);
+  }, [error, showToast]);
 
   // Redirect to login if not authenticated or if session is invalid
   useEffect(() => {
@@ -128,9 +270,11 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
       <div className="bg-gray-800 border-b border-gray-700 px-4 py-3 flex justify-between items-center flex-shrink-0">
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-semibold text-white">Chat App</h1>
-          {selectedTemplateId && (
+          {selectedTemplates.length > 0 && (
             <span className="text-sm bg-blue-600 text-white px-2 py-1 rounded">
-              Template Active
+              {selectedTemplates.length === 1
+                ? "Template Active"
+                : `${selectedTemplates.length} Templates Active`}
             </span>
           )}
         </div>
@@ -139,12 +283,25 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
           <UsageStats refreshTrigger={refreshUsage} />
           
           <div className="flex items-center gap-2">
+            <ModelSelector
+              selectedModel={selectedModel}
+              onModelSelect={updateModel}
+              onError={showError}
+              disabled={isLoading}
+            />
             <button
               onClick={() => setShowTemplates(!showTemplates)}
               className="text-sm text-gray-400 hover:text-gray-200 transition-colors"
             >
               {showTemplates ? "Hide" : "Show"} Templates
             </button>
+            <button
+              onClick={() => setShowShare(!showShare)}
+              className="text-sm text-gray-400 hover:text-gray-200 transition-colors disabled:opacity-50"
+              disabled={!conversationId}
+            >
+              Share
+            </button>
             <button
               onClick={clearMessages}
               className="text-sm text-gray-400 hover:text-gray-200 transition-colors"
@@ -234,33 +391,70 @@ export const ChatInterface = ({ className = "" }: ChatInterfaceComponentProps) =
         </div>
       </div>
 
-      {/* Template Selector */}
-      {showTemplates && (
-        <div className="bg-gray-800 border-b border-gray-700 p-4 flex-shrink-0">
-          <TemplateSelector
-            key={selectedTemplateId || "no-template"}
-            onTemplateSelect={(templateId, variables) => updateTemplate(templateId, variables)}
-            selectedTemplateId={selectedTemplateId}
-            className="max-w-4xl mx-auto"
-          />
-        </div>
-      )}
+      <div className="flex-1 flex overflow-hidden">
+        {/* Conversation Sidebar */}
+        <ConversationSidebar
+          activeConversationId={conversationId}
+          onSelectConversation={handleSelectConversation}
+          onNewConversation={clearMessages}
+          onDeleteConversation={handleDeleteConversation}
+          onError={showError}
+          refreshTrigger={refreshConversations}
+          className="hidden md:flex"
+        />
 
-      {/* Centered Content Area */}
-      <div className="flex-1 flex items-center justify-center p-4 pb-0 overflow-hidden">
-        <div className="w-full max-w-4xl h-full bg-gray-900 rounded-xl overflow-hidden flex flex-col">
-          {/* Messages area */}
-          <MessageList messages={messages} isLoading={isLoading} />
-        </div>
-      </div>
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {/* Template Selector */}
+          {showTemplates && (
+            <div className="bg-gray-800 border-b border-gray-700 p-4 flex-shrink-0">
+              <TemplateSelector
+                selectedTemplates={selectedTemplates}
+                onTemplatesChange={updateTemplates}
+                className="max-w-4xl mx-auto"
+              />
+            </div>
+          )}
 
-      {/* Bottom Input Area */}
-      <div className="flex justify-center p-4 pt-0 flex-shrink-0">
-        <div className="w-full max-w-4xl">
-          <ChatInput 
-            onSendMessage={sendMessage} 
-            isLoading={isLoading}
-          />
+          {/* Share links for the open conversation */}
+          {showShare && conversationId && (
+            <div className="bg-gray-800 border-b border-gray-700 p-4 flex-shrink-0">
+              <SharePanel
+                conversationId={conversationId}
+                messages={messages}
+                onError={showError}
+                className="max-w-4xl mx-auto"
+              />
+            </div>
+          )}
+
+          {/* Centered Content Area */}
+          <div className="flex-1 flex items-center justify-center p-4 pb-0 overflow-hidden">
+            <div className="w-full max-w-4xl h-full bg-gray-900 rounded-xl overflow-hidden flex flex-col">
+              {/* Messages area */}
+              <MessageList
+                messages={messages}
+                isLoading={isLoading}
+                onKeepStopped={handleKeepStopped}
+                onDiscardStopped={discardStoppedReply}
+                // Only stored messages can be regenerated, edited or switched
+                onRegenerate={conversationId ? handleRegenerate : undefined}
+                onEdit={conversationId ? handleEdit : undefined}
+                onSelectVersion={conversationId ? handleSelectVersion : undefined}
+                highlightedMessageId={highlightedMessageId}
+              />
+            </div>
+          </div>
+
+          {/* Bottom Input Area */}
+          <div className="flex justify-center p-4 pt-0 flex-shrink-0">
+            <div className="w-full max-w-4xl">
+              <ChatInput 
+                onSendMessage={sendMessage} 
+                onStop={stopGeneration}
+                isLoading={isLoading}
+              />
+            </div>
+          </div>
         </div>
       </div>
     </div>
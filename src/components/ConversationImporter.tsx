@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { importsApi } from "@/lib/api";
+import { formatCost } from "@/lib/pricing";
+import { useToast } from "@/hooks/useToast";
+import { ConversationImporterProps, ImportSummary } from "@/types";
+import { Spinner } from "./Spinner";
+import { ToastContainer } from "./ToastContainer";
+
+// How often progress is refreshed while an import is running
+const POLL_INTERVAL_MS = 2000;
+
+const SOURCE_LABELS: Record<ImportSummary["source"], string> = {
+  CHATGPT: "ChatGPT",
+  EXPORT: "JSON export",
+};
+
+/**
+ * Upload ChatGPT or JSON export files and follow their imports
+ */
+export const ConversationImporter = ({
+  className = "",
+}: ConversationImporterProps) => {
+  const [imports, setImports] = useState<ImportSummary[] | null>(null);
+  const [backfillEmbeddings, setBackfillEmbeddings] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const { toasts, showError, showSuccess, removeToast } = useToast();
+
+  const fetchImports = useCallback(async () => {
+    try {
+      setImports(await importsApi.list());
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to load imports");
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchImports();
+  }, [fetchImports]);
+
+  // Poll only while something is still importing
+  const running = imports?.some(
+    (item) => item.status !== "COMPLETED" && !item.lastError
+  );
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(fetchImports, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, fetchImports]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+
+    setUploading(true);
+    // Each file is its own import
+    for (const file of Array.from(files)) {
+      try {
+        const data = JSON.parse(await file.text());
+        await importsApi.create({
+          data,
+          fileName: file.name,
+          backfillEmbeddings,
+        });
+        showSuccess(`Importing ${file.name}`);
+      } catch (err) {
+        const message =
+          err instanceof SyntaxError
+            ? "not a JSON file"
+            : err instanceof Error
+              ? err.message
+              : "import failed";
+        showError(`${file.name}: ${message}`);
+      }
+    }
+    setUploading(false);
+    fetchImports();
+  };
+
+  const handleResume = async (item: ImportSummary) => {
+    try {
+      await importsApi.resume(item.id);
+      fetchImports();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to resume import");
+    }
+  };
+
+  return (
+    <>
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <div className={`min-h-screen bg-gray-900 text-gray-100 p-6 ${className}`}>
+        <div className="max-w-3xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-xl font-semibold text-white">
+              Import conversations
+            </h1>
+            <Link href="/" className="text-sm text-gray-400 hover:text-white">
+              Back to chat
+            </Link>
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-4 mb-6 space-y-3">
+            <p className="text-sm text-gray-300">
+              Upload <code>conversations.json</code> from a ChatGPT data export,
+              or JSON files exported from this app. Timestamps, titles and
+              message versions are kept.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={backfillEmbeddings}
+                onChange={(e) => setBackfillEmbeddings(e.target.checked)}
+              />
+              Add imported messages to memory (billed as embeddings, within
+              your spending limits)
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="file"
+                accept=".json,application/json"
+                multiple
+                disabled={uploading}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = "";
+                }}
+                className="text-sm text-gray-300 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-600 file:px-3 file:py-1.5 file:text-white hover:file:bg-blue-700"
+              />
+              {uploading && <Spinner size="sm" />}
+            </div>
+          </div>
+
+          {imports === null ? (
+            <Spinner size="lg" />
+          ) : imports.length === 0 ? (
+            <div className="text-sm text-gray-400">No imports yet</div>
+          ) : (
+            <div className="space-y-3">
+              {imports.map((item) => {
+                const progress = item.totalConversations
+                  ? Math.round(
+                      (item.importedConversations / item.totalConversations) *
+                        100
+                    )
+                  : 0;
+                return (
+                  <div key={item.id} className="bg-gray-800 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-white truncate">
+                          {item.fileName || "Untitled file"}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          {SOURCE_LABELS[item.source]} · started{" "}
+                          {new Date(item.createdAt).toLocaleString()}
+                        </div>
+                      </div>
+                      {item.lastError && item.status !== "COMPLETED" && (
+                        <button
+                          onClick={() => handleResume(item)}
+                          className="rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-1.5 transition-colors flex-shrink-0"
+                        >
+                          Resume
+                        </button>
+                      )}
+                    </div>
+
+                    <div className="mt-3 h-2 bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                    <div className="mt-2 text-xs text-gray-300">
+                      {item.importedConversations}/{item.totalConversations}{" "}
+                      conversations · {item.importedMessages} messages
+                      {item.backfillEmbeddings &&
+                        ` · ${item.embeddedMessages} embedded (${formatCost(
+                          item.embeddingCost
+                        )})`}
+                      {" · "}
+                      {item.status === "COMPLETED"
+                        ? "done"
+                        : item.status.toLowerCase()}
+                    </div>
+
+                    {item.embeddingError && (
+                      <div className="mt-2 text-xs text-yellow-300">
+                        {item.embeddingError}
+                      </div>
+                    )}
+                    {item.lastError && item.status !== "COMPLETED" && (
+                      <div className="mt-2 text-xs text-red-300 break-words">
+                        {item.lastError}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState, useCallback, KeyboardEvent } from "react";
+import Link from "next/link";
+import { conversationsApi, exportApi } from "@/lib/api";
+import { ConversationSidebarProps, ConversationSummary, ExportFormat } from "@/types";
+import { MessageSearch } from "./MessageSearch";
+
+// Props interface moved above component for better readability
+interface ConversationSidebarComponentProps extends ConversationSidebarProps {
+  onError?: (message: string) => void;
+}
+
+export const ConversationSidebar = ({
+  activeConversationId,
+  onSelectConversation,
+  onNewConversation,
+  onDeleteConversation,
+  onError,
+  refreshTrigger,
+  className = "",
+}: ConversationSidebarComponentProps) => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await conversationsApi.list();
+      setConversations(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load conversations";
+      console.error("Failed to fetch conversations:", err);
+      onError?.(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // Refresh when refresh trigger changes (new messages were stored)
+  useEffect(() => {
+    if (refreshTrigger !== undefined && refreshTrigger > 0) {
+      fetchConversations();
+    }
+  }, [refreshTrigger, fetchConversations]);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title || "");
+  };
+
+  const submitRename = async (conversationId: string) => {
+    const title = editTitle.trim() || null;
+    setEditingId(null);
+
+    try {
+      await conversationsApi.rename(conversationId, title);
+      setConversations((prev) =>
+        prev.map((c) => (c.id === conversationId ? { ...c, title } : c))
+      );
+    } catch (err) {
+      onError?.(
+        err instanceof Error ? err.message : "Failed to rename conversation"
+      );
+    }
+  };
+
+  const handleRenameKeyDown = (
+    e: KeyboardEvent<HTMLInputElement>,
+    conversationId: string
+  ) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      submitRename(conversationId);
+    } else if (e.key === "Escape") {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    const label = conversation.title || "this conversation";
+    if (!window.confirm(`Delete ${label}? This cannot be undone.`)) return;
+
+    try {
+      await conversationsApi.delete(conversation.id);
+      setConversations((prev) => prev.filter((c) => c.id !== conversation.id));
+      onDeleteConversation?.(conversation.id);
+    } catch (err) {
+      onError?.(
+        err instanceof Error ? err.message : "Failed to delete conversation"
+      );
+    }
+  };
+
+  const formatDate = (value: string): string => {
+    const date = new Date(value);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday
+      ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString();
+  };
+
+  return (
+    <aside className={`w-64 bg-gray-800 border-r border-gray-700 flex flex-col flex-shrink-0 ${className}`}>
+      <div className="p-3 border-b border-gray-700">
+        <button
+          onClick={onNewConversation}
+          className="w-full rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium px-3 py-2 transition-colors"
+        >
+          + New Chat
+        </button>
+        <MessageSearch
+          className="mt-3"
+          onSelectResult={(result) =>
+            onSelectConversation(result.conversationId, result.messageId)
+          }
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {loading && conversations.length === 0 ? (
+          <div className="text-sm text-gray-400 p-2">Loading conversations...</div>
+        ) : conversations.length === 0 ? (
+          <div className="text-sm text-gray-400 p-2">No conversations yet</div>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                conversation.id === activeConversationId
+                  ? "bg-gray-700"
+                  : "hover:bg-gray-700/60"
+              }`}
+              onClick={() => editingId !== conversation.id && onSelectConversation(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => handleRenameKeyDown(e, conversation.id)}
+                  onBlur={() => submitRename(conversation.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p
+                      className="text-sm text-gray-200 truncate"
+                      title={conversation.overview ?? undefined}
+                    >
+                      {conversation.title || "Untitled conversation"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(conversation.updatedAt)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(conversation);
+                      }}
+                      className="text-xs text-gray-400 hover:text-gray-200"
+                      aria-label="Rename conversation"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(conversation);
+                      }}
+                      className="text-xs text-gray-400 hover:text-red-400"
+                      aria-label="Delete conversation"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-700 text-xs text-gray-400">
+        {conversations.length > 0 && (
+          <>
+            <label className="flex items-center gap-2">
+              Export as
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+              >
+                <option value="markdown">Markdown</option>
+                <option value="json">JSON</option>
+                <option value="html">HTML</option>
+              </select>
+            </label>
+            <div className="flex gap-3 mt-2">
+              {activeConversationId && (
+                <a
+                  href={exportApi.conversationUrl(activeConversationId, exportFormat)}
+                  download
+                  className="hover:text-gray-200 hover:underline"
+                >
+                  This chat
+                </a>
+              )}
+              <a
+                href={exportApi.allConversationsUrl(exportFormat)}
+                download
+                className="hover:text-gray-200 hover:underline"
+              >
+                All chats (.zip)
+              </a>
+            </div>
+          </>
+        )}
+        <Link
+          href="/imports"
+          className={`block hover:text-gray-200 hover:underline ${
+            conversations.length > 0 ? "mt-2" : ""
+          }`}
+        >
+          Import conversations
+        </Link>
+      </div>
+    </aside>
+  );
+};
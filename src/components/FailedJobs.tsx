@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/useToast";
+import { FailedJobsProps, JobListResponse, JobSummary } from "@/types";
+import { JsonTree } from "./JsonTree";
+import { Spinner } from "./Spinner";
+import { ToastContainer } from "./ToastContainer";
+
+/**
+ * Admin view of dead-lettered jobs, with queue counts and retry/discard
+ */
+export const FailedJobs = ({ className = "" }: FailedJobsProps) => {
+  const [data, setData] = useState<JobListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toasts, showError, showSuccess, removeToast } = useToast();
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      setData(await adminApi.listJobs("DEAD"));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const handleRetry = async (job: JobSummary) => {
+    try {
+      await adminApi.retryJob(job.id);
+      showSuccess(`Queued ${job.type} again`);
+      fetchJobs();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to retry job");
+    }
+  };
+
+  const handleDiscard = async (job: JobSummary) => {
+    if (!window.confirm(`Discard this ${job.type} job? This cannot be undone.`))
+      return;
+
+    try {
+      await adminApi.discardJob(job.id);
+      fetchJobs();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to discard job");
+    }
+  };
+
+  return (
+    <>
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <div className={`min-h-screen bg-gray-900 text-gray-100 p-6 ${className}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-xl font-semibold text-white">Failed jobs</h1>
+          <button
+            onClick={fetchJobs}
+            className="rounded-lg bg-gray-700 hover:bg-gray-600 text-sm px-3 py-1.5 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {data && (
+          <div className="flex gap-4 text-sm text-gray-400 mb-4">
+            {Object.entries(data.counts).map(([status, count]) => (
+              <span key={status}>
+                {status.toLowerCase()}: <span className="text-white">{count}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {loading && !data ? (
+          <Spinner size="lg" />
+        ) : !data || data.jobs.length === 0 ? (
+          <div className="text-sm text-gray-400">No failed jobs</div>
+        ) : (
+          <div className="space-y-3">
+            {data.jobs.map((job) => (
+              <div key={job.id} className="bg-gray-800 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-white">{job.type}</div>
+                    <div className="text-xs text-gray-400">
+                      {job.id} · {job.attempts}/{job.maxAttempts} attempts ·
+                      failed {new Date(job.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleRetry(job)}
+                      className="rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm px-3 py-1.5 transition-colors"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleDiscard(job)}
+                      className="rounded-lg bg-gray-700 hover:bg-red-600 text-sm px-3 py-1.5 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+
+                {job.lastError && (
+                  <pre className="mt-3 text-xs text-red-300 whitespace-pre-wrap break-words">
+                    {expandedId === job.id
+                      ? job.lastError
+                      : job.lastError.split("\n")[0]}
+                  </pre>
+                )}
+                <button
+                  onClick={() =>
+                    setExpandedId((prev) => (prev === job.id ? null : job.id))
+                  }
+                  className="mt-2 text-xs text-gray-400 hover:text-white"
+                >
+                  {expandedId === job.id ? "Hide details" : "Show details"}
+                </button>
+                {expandedId === job.id && (
+                  <JsonTree data={job.payload} className="mt-2" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
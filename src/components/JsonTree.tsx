@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { JsonTreeProps } from "@/types";
+
+// Nesting levels shown expanded at first
+const DEFAULT_EXPANDED_DEPTH = 2;
+
+const JsonNode = ({
+  name,
+  value,
+  depth,
+}: {
+  name?: string;
+  value: unknown;
+  depth: number;
+}) => {
+  const [expanded, setExpanded] = useState(depth < DEFAULT_EXPANDED_DEPTH);
+  const isArray = Array.isArray(value);
+  const isContainer = value !== null && typeof value === "object";
+
+  const label = name !== undefined && (
+    <span className="text-blue-300">{name}: </span>
+  );
+
+  if (!isContainer) {
+    const color =
+      typeof value === "string"
+        ? "text-green-300"
+        : value === null
+        ? "text-gray-400"
+        : "text-yellow-300";
+    return (
+      <div className="pl-4">
+        {label}
+        <span className={color}>{JSON.stringify(value)}</span>
+      </div>
+    );
+  }
+
+  const entries = isArray
+    ? (value as unknown[]).map((item, index) => [String(index), item] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const [open, close] = isArray ? ["[", "]"] : ["{", "}"];
+
+  return (
+    <div className="pl-4">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-left hover:text-white"
+        aria-expanded={expanded}
+      >
+        <span className="inline-block w-3 text-gray-400">
+          {expanded ? "▾" : "▸"}
+        </span>
+        {label}
+        {open}
+        {!expanded && (
+          <span className="text-gray-400">
+            {" "}
+            {entries.length} {isArray ? "items" : "keys"} {close}
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={key} value={item} depth={depth + 1} />
+          ))}
+          <div className="pl-3">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const JsonTree = ({ data, className = "" }: JsonTreeProps) => {
+  return (
+    <div
+      className={`font-mono text-sm bg-gray-800 rounded-md py-2 pr-2 overflow-x-auto ${className}`}
+    >
+      <JsonNode value={data} depth={0} />
+    </div>
+  );
+};
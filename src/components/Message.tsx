@@ -1,31 +1,162 @@
 "use client";
 
+import { useState } from "react";
 import { MessageProps } from "@/types";
+import { JsonTree } from "./JsonTree";
 
 // Props interface moved above component for better readability
 interface MessageComponentProps {
   message: MessageProps["message"];
+  onKeep?: MessageProps["onKeep"];
+  onDiscard?: MessageProps["onDiscard"];
+  onRegenerate?: MessageProps["onRegenerate"];
+  onEdit?: MessageProps["onEdit"];
+  onSelectVersion?: MessageProps["onSelectVersion"];
+  highlighted?: MessageProps["highlighted"];
 }
 
-export const Message = ({ message }: MessageComponentProps) => {
+export const Message = ({
+  message,
+  onKeep,
+  onDiscard,
+  onRegenerate,
+  onEdit,
+  onSelectVersion,
+  highlighted = false,
+}: MessageComponentProps) => {
   const isUser = message.role === "user";
-  
+  const versions = message.versions ?? [];
+  const versionIndex = versions.findIndex((v) => v.id === message.id);
+  const showActions = !message.isStreaming && !message.stopped;
+  // Draft of an edited prompt; null when not editing
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSaveEdit = () => {
+    const content = draft?.trim();
+    if (!content) return;
+    setDraft(null);
+    if (content !== message.content) {
+      onEdit?.(content);
+    }
+  };
+
   return (
-    <div className={`flex ${isUser ? "justify-end" : "justify-start"} mb-4`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex ${isUser ? "justify-end" : "justify-start"} mb-4`}
+    >
       <div
         className={`max-w-[80%] rounded-lg px-4 py-2 ${
           isUser
             ? "bg-blue-600 text-white"
             : "bg-gray-700 text-gray-100"
-        }`}
+        } ${highlighted ? "ring-2 ring-yellow-400" : ""}`}
       >
         <div className="text-sm font-medium mb-1">
           {isUser ? "You" : "Assistant"}
         </div>
-        <div className="whitespace-pre-wrap">{message.content}</div>
+        {draft !== null ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-full min-w-[16rem] resize-y rounded border border-blue-300 bg-blue-700 text-white px-2 py-1 focus:outline-none"
+              rows={3}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="rounded bg-gray-600 hover:bg-gray-500 text-white text-xs px-2 py-1 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveEdit}
+                disabled={!draft.trim()}
+                className="rounded bg-white text-blue-700 hover:bg-gray-100 disabled:opacity-50 text-xs px-2 py-1 transition-colors"
+              >
+                Save & send
+              </button>
+            </div>
+          </div>
+        ) : message.data !== undefined ? (
+          <JsonTree data={message.data} />
+        ) : (
+          <div className="whitespace-pre-wrap">
+            {message.content}
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-300 animate-pulse" />
+            )}
+          </div>
+        )}
         <div className="text-xs opacity-70 mt-1">
           {message.timestamp.toLocaleTimeString()}
+          {message.stopped && " · Stopped"}
         </div>
+        {showActions && draft === null && (versions.length > 1 || onRegenerate || onEdit) && (
+          <div className="flex items-center gap-2 mt-1 text-xs opacity-70">
+            {versions.length > 1 && versionIndex >= 0 && (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onSelectVersion?.(versions[versionIndex - 1].id)}
+                  disabled={!onSelectVersion || versionIndex === 0}
+                  className="px-1 hover:opacity-100 disabled:opacity-40"
+                  aria-label="Previous version"
+                >
+                  ‹
+                </button>
+                <span>
+                  {versionIndex + 1}/{versions.length}
+                </span>
+                <button
+                  onClick={() => onSelectVersion?.(versions[versionIndex + 1].id)}
+                  disabled={!onSelectVersion || versionIndex === versions.length - 1}
+                  className="px-1 hover:opacity-100 disabled:opacity-40"
+                  aria-label="Next version"
+                >
+                  ›
+                </button>
+              </div>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                className="hover:underline"
+              >
+                Regenerate
+              </button>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => setDraft(message.content)}
+                className="hover:underline"
+              >
+                Edit
+              </button>
+            )}
+          </div>
+        )}
+        {message.stopped && !isUser && (onKeep || onDiscard) && (
+          <div className="flex gap-2 mt-2">
+            {onKeep && (
+              <button
+                onClick={onKeep}
+                className="rounded bg-blue-600 hover:bg-blue-700 text-white text-xs px-2 py-1 transition-colors"
+              >
+                Keep
+              </button>
+            )}
+            {onDiscard && (
+              <button
+                onClick={onDiscard}
+                className="rounded bg-gray-600 hover:bg-gray-500 text-white text-xs px-2 py-1 transition-colors"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
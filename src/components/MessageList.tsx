@@ -8,17 +8,45 @@ import { Message } from "./Message";
 interface MessageListComponentProps {
   messages: MessageListProps["messages"];
   isLoading: MessageListProps["isLoading"];
+  onKeepStopped?: MessageListProps["onKeepStopped"];
+  onDiscardStopped?: MessageListProps["onDiscardStopped"];
+  onRegenerate?: MessageListProps["onRegenerate"];
+  onEdit?: MessageListProps["onEdit"];
+  onSelectVersion?: MessageListProps["onSelectVersion"];
+  highlightedMessageId?: MessageListProps["highlightedMessageId"];
 }
 
-export const MessageList = ({ messages, isLoading }: MessageListComponentProps) => {
+export const MessageList = ({
+  messages,
+  isLoading,
+  onKeepStopped,
+  onDiscardStopped,
+  onRegenerate,
+  onEdit,
+  onSelectVersion,
+  highlightedMessageId,
+}: MessageListComponentProps) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showScrollButton, setShowScrollButton] = useState(false);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Streaming replies render in place; hide them until the first token arrives
+  const visibleMessages = messages.filter(
+    (message) => !(message.isStreaming && !message.content)
+  );
+  const isStreamingReply = visibleMessages.some((message) => message.isStreaming);
+
+  // Auto-scroll to bottom when new messages arrive, or to the highlighted
+  // message
   useEffect(() => {
+    if (highlightedMessageId) {
+      document
+        .getElementById(`message-${highlightedMessageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, highlightedMessageId]);
 
   // Check if user is at bottom of scroll
   const checkScrollPosition = () => {
@@ -55,13 +83,37 @@ export const MessageList = ({ messages, isLoading }: MessageListComponentProps)
             <div className="text-sm">Start a conversation by typing a message below.</div>
           </div>
         ) : (
-          messages.map((message) => (
-            <Message key={message.id} message={message} />
+          visibleMessages.map((message) => (
+            <Message
+              key={message.id}
+              message={message}
+              highlighted={message.id === highlightedMessageId}
+              onKeep={onKeepStopped && (() => onKeepStopped(message.id))}
+              onDiscard={
+                onDiscardStopped && (() => onDiscardStopped(message.id))
+              }
+              // Versions can't change while a reply is being written
+              onRegenerate={
+                onRegenerate && !isLoading && message.role === "assistant"
+                  ? () => onRegenerate(message.id)
+                  : undefined
+              }
+              onEdit={
+                onEdit && !isLoading && message.role === "user"
+                  ? (content) => onEdit(message.id, content)
+                  : undefined
+              }
+              onSelectVersion={
+                onSelectVersion && !isLoading
+                  ? (versionId) => onSelectVersion(message.id, versionId)
+                  : undefined
+              }
+            />
           ))
         )}
         
         {/* Loading indicator */}
-        {isLoading && (
+        {isLoading && !isStreamingReply && (
           <div className="flex justify-start mb-4">
             <div className="bg-gray-700 text-gray-100 rounded-lg px-4 py-2">
               <div className="text-sm font-medium mb-1">Assistant</div>
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { searchApi } from "@/lib/api";
+import { MessageSearchProps, MessageSearchResult } from "@/types";
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Search box over the user's stored messages; picking a result jumps to it
+ */
+export const MessageSearch = ({
+  onSelectResult,
+  className = "",
+}: MessageSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [semantic, setSemantic] = useState(false);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    // A newer query supersedes this one, so its results are dropped
+    let current = true;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const found = await searchApi.search(trimmed, { semantic });
+        if (current) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (err) {
+        if (current) {
+          setError(err instanceof Error ? err.message : "Search failed");
+        }
+      } finally {
+        if (current) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [query, semantic]);
+
+  const handleSelect = (result: MessageSearchResult) => {
+    setQuery("");
+    onSelectResult(result);
+  };
+
+  return (
+    <div className={className}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && setQuery("")}
+        placeholder="Search messages..."
+        className="w-full px-2 py-1.5 bg-gray-900 border border-gray-600 rounded text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      <label className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+        <input
+          type="checkbox"
+          checked={semantic}
+          onChange={(e) => setSemantic(e.target.checked)}
+        />
+        Include similar messages
+      </label>
+
+      {query.trim() && (
+        <div className="mt-2 max-h-80 overflow-y-auto space-y-1">
+          {error ? (
+            <div className="text-xs text-red-400 p-1">{error}</div>
+          ) : loading && results.length === 0 ? (
+            <div className="text-xs text-gray-400 p-1">Searching...</div>
+          ) : results.length === 0 ? (
+            <div className="text-xs text-gray-400 p-1">No matching messages</div>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.messageId}
+                onClick={() => handleSelect(result)}
+                className="block w-full text-left rounded px-2 py-1.5 hover:bg-gray-700 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                  <span className="truncate">
+                    {result.conversationTitle || "Untitled conversation"}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {new Date(result.timestamp).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-200 line-clamp-3">
+                  <span className="text-gray-400">
+                    {result.role === "user" ? "You: " : "Assistant: "}
+                  </span>
+                  {result.snippet.map((part, index) =>
+                    part.highlighted ? (
+                      <mark key={index} className="bg-yellow-500/40 text-white rounded-sm">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                  {result.match === "semantic" && (
+                    <span className="ml-1 text-gray-500">(similar)</span>
+                  )}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { modelsApi } from "@/lib/api";
+import { ChatModelOption, ModelSelectorProps } from "@/types";
+
+export const ModelSelector = ({
+  selectedModel,
+  onModelSelect,
+  onError,
+  disabled = false,
+  className = "",
+}: ModelSelectorProps) => {
+  const [models, setModels] = useState<ChatModelOption[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | undefined>();
+
+  useEffect(() => {
+    modelsApi
+      .list()
+      .then((data) => {
+        setModels(data.models);
+        setDefaultModel(data.defaultModel);
+      })
+      .catch((err) => {
+        console.error("Failed to fetch models:", err);
+        onError?.(err instanceof Error ? err.message : "Failed to load models");
+      });
+  }, [onError]);
+
+  const formatPrice = (model: ChatModelOption): string => {
+    if (model.inputPricePer1K === undefined) {
+      return "";
+    }
+    return ` ($${model.inputPricePer1K}/$${model.outputPricePer1K} per 1K)`;
+  };
+
+  // Nothing to choose between
+  if (models.length <= 1) {
+    return null;
+  }
+
+  return (
+    <select
+      value={selectedModel ?? defaultModel ?? ""}
+      onChange={(e) =>
+        // Picking the default sends no model, so server config changes apply
+        onModelSelect(
+          e.target.value === defaultModel ? undefined : e.target.value
+        )
+      }
+      disabled={disabled}
+      title="Model"
+      className={`px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${className}`}
+    >
+      {models.map((model) => (
+        <option key={model.id} value={model.id}>
+          {model.id}
+          {formatPrice(model)}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { sharesApi } from "@/lib/api";
+import { ConversationShareSummary, SharePanelProps } from "@/types";
+
+// Expiry choices in days; 0 means the link doesn't expire
+const EXPIRY_OPTIONS = [
+  { days: 0, label: "Never" },
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Characters of each message shown when picking ones to redact
+const PREVIEW_LENGTH = 80;
+
+const getShareStatus = (share: ConversationShareSummary): string => {
+  if (share.revokedAt) return "Revoked";
+  if (share.expiresAt) {
+    const expiresAt = new Date(share.expiresAt);
+    return expiresAt <= new Date()
+      ? "Expired"
+      : `Expires ${expiresAt.toLocaleDateString()}`;
+  }
+  return "No expiry";
+};
+
+/**
+ * Create and revoke public read-only links to a conversation
+ * A link shows the active branch as it is when the link is made.
+ */
+export const SharePanel = ({
+  conversationId,
+  messages,
+  onError,
+  className = "",
+}: SharePanelProps) => {
+  const [shares, setShares] = useState<ConversationShareSummary[]>([]);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [hideTemplateVariables, setHideTemplateVariables] = useState(false);
+  const [redacted, setRedacted] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchShares = useCallback(async () => {
+    try {
+      setShares(await sharesApi.list(conversationId));
+    } catch (err) {
+      onError?.(
+        err instanceof Error ? err.message : "Failed to load share links"
+      );
+    }
+  }, [conversationId, onError]);
+
+  useEffect(() => {
+    setRedacted(new Set());
+    fetchShares();
+  }, [fetchShares]);
+
+  const toggleRedacted = (messageId: string) => {
+    setRedacted((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async (share: ConversationShareSummary) => {
+    try {
+      await navigator.clipboard.writeText(sharesApi.pageUrl(share.token));
+      setCopiedId(share.id);
+    } catch {
+      onError?.("Couldn't copy the link");
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const share = await sharesApi.create(conversationId, {
+        expiresAt: expiryDays
+          ? new Date(Date.now() + expiryDays * DAY_MS).toISOString()
+          : null,
+        hideTemplateVariables,
+        redactedMessageIds: Array.from(redacted),
+      });
+      setShares((prev) => [share, ...prev]);
+      handleCopy(share);
+    } catch (err) {
+      onError?.(
+        err instanceof Error ? err.message : "Failed to create share link"
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: ConversationShareSummary) => {
+    if (!window.confirm("Revoke this link? Anyone using it will lose access."))
+      return;
+
+    try {
+      await sharesApi.revoke(conversationId, share.id);
+      fetchShares();
+    } catch (err) {
+      onError?.(
+        err instanceof Error ? err.message : "Failed to revoke share link"
+      );
+    }
+  };
+
+  // Unsaved replies aren't part of the stored conversation
+  const shareable = messages.filter((msg) => !msg.isStreaming && !msg.stopped);
+
+  return (
+    <div className={`text-sm text-gray-300 space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          Link expires
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={hideTemplateVariables}
+            onChange={(e) => setHideTemplateVariables(e.target.checked)}
+          />
+          Hide template variables
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={creating || shareable.length === 0}
+          className="rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1.5 transition-colors"
+        >
+          {creating ? "Creating..." : "Create link"}
+        </button>
+      </div>
+
+      {shareable.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-400 hover:text-gray-200">
+            Redact messages{redacted.size > 0 && ` (${redacted.size})`}
+          </summary>
+          <div className="mt-2 max-h-48 overflow-y-auto space-y-1">
+            {shareable.map((msg) => (
+              <label key={msg.id} className="flex items-start gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={redacted.has(msg.id)}
+                  onChange={() => toggleRedacted(msg.id)}
+                  className="mt-0.5"
+                />
+                <span className="truncate">
+                  <span className="text-gray-400">
+                    {msg.role === "user" ? "You: " : "Assistant: "}
+                  </span>
+                  {msg.content.slice(0, PREVIEW_LENGTH)}
+                </span>
+              </label>
+            ))}
+          </div>
+        </details>
+      )}
+
+      {shares.length > 0 && (
+        <div className="space-y-1">
+          {shares.map((share) => {
+            const active =
+              !share.revokedAt &&
+              (!share.expiresAt || new Date(share.expiresAt) > new Date());
+            return (
+              <div
+                key={share.id}
+                className="flex items-center justify-between gap-3 text-xs"
+              >
+                <span className={active ? "" : "text-gray-500 line-through"}>
+                  Created {new Date(share.createdAt).toLocaleString()} ·{" "}
+                  {getShareStatus(share)}
+                  {share.redactedMessages > 0 &&
+                    ` · ${share.redactedMessages} redacted`}
+                  {share.hideTemplateVariables && " · variables hidden"}
+                </span>
+                {active && (
+                  <span className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleCopy(share)}
+                      className="hover:text-white hover:underline"
+                    >
+                      {copiedId === share.id ? "Copied" : "Copy link"}
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(share)}
+                      className="hover:text-red-400 hover:underline"
+                    >
+                      Revoke
+                    </button>
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { SharedConversationViewProps } from "@/types";
+
+/**
+ * Read-only page for a shared conversation snapshot
+ */
+export const SharedConversationView = ({
+  conversation,
+}: SharedConversationViewProps) => (
+  <div className="min-h-screen bg-gray-900 text-gray-100 p-6">
+    <div className="max-w-3xl mx-auto">
+      <h1 className="text-xl font-semibold text-white">
+        {conversation.title || "Untitled conversation"}
+      </h1>
+      <p className="text-xs text-gray-400 mb-6">
+        Shared {new Date(conversation.sharedAt).toUTCString()} · read-only
+      </p>
+
+      {conversation.messages.map((message, index) => {
+        const isUser = message.role === "user";
+        return (
+          <div
+            key={index}
+            className={`flex ${isUser ? "justify-end" : "justify-start"} mb-4`}
+          >
+            <div
+              className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                isUser ? "bg-blue-600 text-white" : "bg-gray-700 text-gray-100"
+              }`}
+            >
+              <div className="text-sm font-medium mb-1">
+                {isUser ? "User" : "Assistant"}
+                {message.model && (
+                  <span className="ml-2 font-normal opacity-70">
+                    {message.model}
+                  </span>
+                )}
+              </div>
+              {message.content === null ? (
+                <div className="italic opacity-70">Message redacted</div>
+              ) : (
+                <div className="whitespace-pre-wrap">{message.content}</div>
+              )}
+              {message.templates && (
+                <div className="text-xs opacity-70 mt-1">
+                  Templates:{" "}
+                  {message.templates
+                    .map(({ name, variables }) =>
+                      variables
+                        ? `${name} (${Object.entries(variables)
+                            .map(([key, value]) => `${key}: ${value}`)
+                            .join(", ")})`
+                        : name
+                    )
+                    .join(" · ")}
+                </div>
+              )}
+              <div className="text-xs opacity-70 mt-1">
+                {new Date(message.timestamp).toUTCString()}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
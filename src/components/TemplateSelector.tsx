@@ -1,101 +1,96 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { PREDEFINED_TEMPLATES, getTemplatesByCategory, getTemplateCategories } from "@/lib/templates";
-import { PromptTemplate, TemplateCategory } from "@/types";
+import { useState } from "react";
+import { PREDEFINED_TEMPLATES, getTemplateById, getTemplatesByCategory, getTemplateCategories } from "@/lib/templates";
+import { PromptTemplate, TemplateCategory, TemplateSelection, TemplateSelectorProps, TemplateStackEntry } from "@/types";
 import { templateEngine } from "@/lib/templateEngine";
 
-interface TemplateSelectorProps {
-  onTemplateSelect: (templateId: string | undefined, variables: Record<string, string | number | boolean>) => void;
-  selectedTemplateId?: string;
-  className?: string;
-}
+/**
+ * Default values of a template's variables, without the unset ones
+ */
+const getDefaults = (template: PromptTemplate): Record<string, string | number | boolean> => {
+  const defaults = templateEngine.getDefaultVariables(template);
+  return Object.fromEntries(
+    Object.entries(defaults).filter(([, value]) => value !== undefined)
+  ) as Record<string, string | number | boolean>;
+};
 
-export function TemplateSelector({ 
-  onTemplateSelect, 
-  selectedTemplateId, 
-  className = "" 
+/**
+ * Pick an ordered stack of templates; they're composed into one system
+ * prompt in the order shown, each with its own variables
+ */
+export function TemplateSelector({
+  selectedTemplates,
+  onTemplatesChange,
+  className = ""
 }: TemplateSelectorProps) {
   const [selectedCategory, setSelectedCategory] = useState<TemplateCategory | "all">("all");
   const [searchQuery, setSearchQuery] = useState("");
-  const [showVariables, setShowVariables] = useState(false);
-  const [templateVariables, setTemplateVariables] = useState<Record<string, string | number | boolean>>({});
-
-  const selectedTemplate = selectedTemplateId 
-    ? PREDEFINED_TEMPLATES.find(t => t.id === selectedTemplateId)
-    : undefined;
-
-  // Initialize variables when a template is selected or changes
-  useEffect(() => {
-    if (selectedTemplate) {
-      const defaults = templateEngine.getDefaultVariables(selectedTemplate);
-      const filteredDefaults = Object.fromEntries(
-        Object.entries(defaults).filter(([, value]) => value !== undefined)
-      ) as Record<string, string | number | boolean>;
-      
-      // Only initialize if not already set, or if template changed
-      const hasVariablesForTemplate = selectedTemplate.variables.every(v => 
-        templateVariables[v.name] !== undefined
-      );
-      
-      if (!hasVariablesForTemplate || Object.keys(templateVariables).length === 0) {
-        setTemplateVariables(filteredDefaults);
-        setShowVariables(selectedTemplate.variables.length > 0);
-        onTemplateSelect(selectedTemplate.id, filteredDefaults);
-      }
-    } else {
-      // No template selected
-      setTemplateVariables({});
-      setShowVariables(false);
-    }
-  }, [selectedTemplateId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const stack = selectedTemplates
+    .map((selection) => ({ selection, template: getTemplateById(selection.templateId) }))
+    .filter((entry): entry is { selection: TemplateSelection; template: PromptTemplate } => Boolean(entry.template));
+
+  // Shared variable names must agree, since the model sees a single prompt
+  const conflicts = templateEngine.findVariableConflicts(
+    stack.map(({ selection, template }): TemplateStackEntry => ({
+      template,
+      variables: selection.variables ?? {},
+    }))
+  );
 
   const categories = getTemplateCategories();
-  const filteredTemplates = selectedCategory === "all" 
+  const filteredTemplates = selectedCategory === "all"
     ? PREDEFINED_TEMPLATES
     : getTemplatesByCategory(selectedCategory);
 
-  const searchResults = searchQuery 
-    ? filteredTemplates.filter(template => 
+  const searchResults = searchQuery
+    ? filteredTemplates.filter(template =>
         template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         template.description.toLowerCase().includes(searchQuery.toLowerCase())
       )
     : filteredTemplates;
 
-  const handleTemplateSelect = (template: PromptTemplate) => {
-    const defaults = templateEngine.getDefaultVariables(template);
-    // Filter out undefined values to match our type
-    const filteredDefaults = Object.fromEntries(
-      Object.entries(defaults).filter(([, value]) => value !== undefined)
-    ) as Record<string, string | number | boolean>;
-    
-    setTemplateVariables(filteredDefaults);
-    onTemplateSelect(template.id, filteredDefaults);
-    setShowVariables(template.variables.length > 0);
+  const stackPosition = (templateId: string) =>
+    selectedTemplates.findIndex((selection) => selection.templateId === templateId);
+
+  // Clicking a template adds it to the end of the stack, or removes it
+  const handleTemplateToggle = (template: PromptTemplate) => {
+    if (stackPosition(template.id) >= 0) {
+      onTemplatesChange(selectedTemplates.filter((selection) => selection.templateId !== template.id));
+    } else {
+      onTemplatesChange([...selectedTemplates, { templateId: template.id, variables: getDefaults(template) }]);
+    }
   };
 
-  const handleVariableChange = (variableName: string, value: string | number | boolean) => {
-    const newVariables = { ...templateVariables, [variableName]: value };
-    setTemplateVariables(newVariables);
-    onTemplateSelect(selectedTemplateId, newVariables);
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= selectedTemplates.length) return;
+    const reordered = [...selectedTemplates];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onTemplatesChange(reordered);
   };
 
-  const handleClearTemplate = () => {
-    onTemplateSelect(undefined, {});
-    setTemplateVariables({});
-    setShowVariables(false);
+  const handleVariableChange = (templateId: string, variableName: string, value: string | number | boolean) => {
+    onTemplatesChange(
+      selectedTemplates.map((selection) =>
+        selection.templateId === templateId
+          ? { ...selection, variables: { ...selection.variables, [variableName]: value } }
+          : selection
+      )
+    );
   };
 
   return (
     <div className={`bg-gray-800 border border-gray-600 rounded-lg p-4 ${className}`}>
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-white">Prompt Templates</h3>
-        {selectedTemplateId && (
+        {selectedTemplates.length > 0 && (
           <button
-            onClick={handleClearTemplate}
+            onClick={() => onTemplatesChange([])}
             className="text-sm text-gray-400 hover:text-gray-200"
           >
-            Clear Template
+            Clear Templates
           </button>
         )}
       </div>
@@ -117,8 +112,8 @@ export function TemplateSelector({
           <button
             onClick={() => setSelectedCategory("all")}
             className={`px-3 py-1 rounded-full text-sm ${
-              selectedCategory === "all" 
-                ? "bg-blue-500 text-white" 
+              selectedCategory === "all"
+                ? "bg-blue-500 text-white"
                 : "bg-gray-700 text-gray-300 hover:bg-gray-600"
             }`}
           >
@@ -129,8 +124,8 @@ export function TemplateSelector({
               key={category}
               onClick={() => setSelectedCategory(category)}
               className={`px-3 py-1 rounded-full text-sm capitalize ${
-                selectedCategory === category 
-                  ? "bg-blue-500 text-white" 
+                selectedCategory === category
+                  ? "bg-blue-500 text-white"
                   : "bg-gray-700 text-gray-300 hover:bg-gray-600"
               }`}
             >
@@ -142,82 +137,140 @@ export function TemplateSelector({
 
       {/* Template List */}
       <div className="space-y-2 max-h-64 overflow-y-auto">
-        {searchResults.map(template => (
-          <div
-            key={template.id}
-            onClick={() => handleTemplateSelect(template)}
-            className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-              selectedTemplateId === template.id
-                ? "border-blue-500 bg-blue-900/30"
-                : "border-gray-600 hover:border-gray-500 hover:bg-gray-700"
-            }`}
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <h4 className="font-medium text-white">{template.name}</h4>
-                <p className="text-sm text-gray-300 mt-1">{template.description}</p>
-                <div className="flex items-center gap-2 mt-2">
-                  <span className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded">
-                    {template.category}
-                  </span>
-                  {template.variables.length > 0 && (
-                    <span className="text-xs bg-blue-900/50 text-blue-300 px-2 py-1 rounded">
-                      {template.variables.length} variables
+        {searchResults.map(template => {
+          const position = stackPosition(template.id);
+          return (
+            <div
+              key={template.id}
+              onClick={() => handleTemplateToggle(template)}
+              className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                position >= 0
+                  ? "border-blue-500 bg-blue-900/30"
+                  : "border-gray-600 hover:border-gray-500 hover:bg-gray-700"
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-medium text-white">{template.name}</h4>
+                  <p className="text-sm text-gray-300 mt-1">{template.description}</p>
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="text-xs bg-gray-700 text-gray-300 px-2 py-1 rounded">
+                      {template.category}
                     </span>
-                  )}
+                    {template.variables.length > 0 && (
+                      <span className="text-xs bg-blue-900/50 text-blue-300 px-2 py-1 rounded">
+                        {template.variables.length} variables
+                      </span>
+                    )}
+                  </div>
                 </div>
+                {position >= 0 && (
+                  <span className="ml-2 flex h-6 w-6 items-center justify-center rounded-full bg-blue-500 text-xs font-medium text-white">
+                    {position + 1}
+                  </span>
+                )}
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
-      {/* Template Variables */}
-      {showVariables && selectedTemplate && (
+      {/* Selected stack, in prompt order, with each template's variables */}
+      {stack.length > 0 && (
         <div className="mt-4 pt-4 border-t border-gray-600">
-          <h4 className="font-medium mb-3 text-white">Template Variables</h4>
-          <div className="space-y-3">
-            {selectedTemplate.variables.map(variable => (
-              <div key={variable.name}>
-                <label className="block text-sm font-medium text-gray-300 mb-1">
-                  {variable.name}
-                  {variable.required && <span className="text-red-400 ml-1">*</span>}
-                </label>
-                <p className="text-xs text-gray-400 mb-2">{variable.description}</p>
-                
-                {variable.type === "boolean" ? (
-                  <label className="flex items-center">
-                    <input
-                      type="checkbox"
-                      checked={Boolean(templateVariables[variable.name])}
-                      onChange={(e) => handleVariableChange(variable.name, e.target.checked)}
-                      className="mr-2"
-                    />
-                    <span className="text-sm text-gray-300">Enable</span>
-                  </label>
-                ) : variable.options ? (
-                  <select
-                    value={String(templateVariables[variable.name] || variable.defaultValue || "")}
-                    onChange={(e) => handleVariableChange(variable.name, e.target.value)}
-                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    {variable.options.map(option => (
-                      <option key={option} value={option}>{option}</option>
-                    ))}
-                  </select>
-                ) : (
-                  <input
-                    type={variable.type === "number" ? "number" : "text"}
-                    value={String(templateVariables[variable.name] || variable.defaultValue || "")}
-                    onChange={(e) => {
-                      const value = variable.type === "number" 
-                        ? Number(e.target.value) 
-                        : e.target.value;
-                      handleVariableChange(variable.name, value);
-                    }}
-                    placeholder={variable.defaultValue?.toString() || ""}
-                    className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+          <h4 className="font-medium mb-3 text-white">Prompt Order</h4>
+          {conflicts.length > 0 && (
+            <div className="mb-3 rounded-md border border-yellow-600 bg-yellow-900/30 px-3 py-2 text-sm text-yellow-200">
+              {conflicts.map(({ name, templateIds }) => (
+                <div key={name}>
+                  {name} is set differently by {templateIds.join(" and ")}; give it the same value in each
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-4">
+            {stack.map(({ selection, template }, index) => (
+              <div key={template.id} className="rounded-lg border border-gray-600 p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-white">
+                    {index + 1}. {template.name}
+                  </span>
+                  <div className="flex items-center gap-1 text-sm text-gray-400">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="px-2 hover:text-gray-200 disabled:opacity-40"
+                      aria-label={`Move ${template.name} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === stack.length - 1}
+                      className="px-2 hover:text-gray-200 disabled:opacity-40"
+                      aria-label={`Move ${template.name} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handleTemplateToggle(template)}
+                      className="px-2 hover:text-gray-200"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+
+                {template.variables.length > 0 && (
+                  <div className="space-y-3 mt-3">
+                    {template.variables.map(variable => {
+                      const value = selection.variables?.[variable.name];
+                      return (
+                        <div key={variable.name}>
+                          <label className="block text-sm font-medium text-gray-300 mb-1">
+                            {variable.name}
+                            {variable.required && <span className="text-red-400 ml-1">*</span>}
+                          </label>
+                          <p className="text-xs text-gray-400 mb-2">{variable.description}</p>
+
+                          {variable.type === "boolean" ? (
+                            <label className="flex items-center">
+                              <input
+                                type="checkbox"
+                                checked={Boolean(value)}
+                                onChange={(e) => handleVariableChange(template.id, variable.name, e.target.checked)}
+                                className="mr-2"
+                              />
+                              <span className="text-sm text-gray-300">Enable</span>
+                            </label>
+                          ) : variable.options ? (
+                            <select
+                              value={String(value || variable.defaultValue || "")}
+                              onChange={(e) => handleVariableChange(template.id, variable.name, e.target.value)}
+                              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {variable.options.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <input
+                              type={variable.type === "number" ? "number" : "text"}
+                              value={String(value || variable.defaultValue || "")}
+                              onChange={(e) => {
+                                const newValue = variable.type === "number"
+                                  ? Number(e.target.value)
+                                  : e.target.value;
+                                handleVariableChange(template.id, variable.name, newValue);
+                              }}
+                              placeholder={variable.defaultValue?.toString() || ""}
+                              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
                 )}
               </div>
             ))}
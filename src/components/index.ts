@@ -7,3 +7,11 @@ export { TemplateSelector } from "./TemplateSelector";
 export { ToastItem, type Toast, type ToastType } from "./Toast";
 export { ToastContainer } from "./ToastContainer";
 export { Spinner } from "./Spinner";
+export { ConversationSidebar } from "./ConversationSidebar";
+export { MessageSearch } from "./MessageSearch";
+export { ModelSelector } from "./ModelSelector";
+export { JsonTree } from "./JsonTree";
+export { FailedJobs } from "./FailedJobs";
+export { ConversationImporter } from "./ConversationImporter";
+export { SharePanel } from "./SharePanel";
+export { SharedConversationView } from "./SharedConversationView";
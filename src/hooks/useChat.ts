@@ -1,102 +1,586 @@
 "use client";
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState, useCallback } from "react";
-import { chatApi } from "@/lib/api";
-import { Message, UseChatReturn } from "@/types";
+import { useState, useCallback, useMemo, useRef } from "react";
+import { ChatApiError, chatApi, conversationsApi } from "@/lib/api";
+import {
+  ChatError,
+  Message,
+  MessageVersion,
+  SavedExchange,
+  StoredMessage,
+  TemplateSelection,
+  UseChatReturn,
+} from "@/types";
+
+const toMessage = (msg: StoredMessage): Message => ({
+  id: msg.id,
+  content: msg.content,
+  role: msg.role,
+  timestamp: new Date(msg.timestamp),
+  versions: msg.versions,
+});
 
 export const useChat = (): UseChatReturn => {
   const [messages, setMessages] = useState<Message[]>([]);
-  const [selectedTemplateId, setSelectedTemplateId] = useState<
-    string | undefined
-  >();
-  const [templateVariables, setTemplateVariables] = useState<
-    Record<string, string | number | boolean>
-  >({});
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  // Templates composed into the system prompt, in order
+  const [selectedTemplates, setSelectedTemplates] = useState<
+    TemplateSelection[]
+  >([]);
+  // Undefined means the server's default model
+  const [selectedModel, setSelectedModel] = useState<string | undefined>();
   const queryClient = useQueryClient();
+  // Aborts the request in flight when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Whether the messages on screen are a branch opened from a search hit,
+  // which only becomes the active one when the user continues from it
+  const viewingBranchRef = useRef(false);
+
+  /**
+   * Stream another version of a stored reply into its message
+   * Later turns stay on the original version's branch, so they're hidden;
+   * a failed or stopped regeneration leaves the conversation as it was
+   */
+  const streamRegeneration = async ({
+    messageId,
+    templates,
+    model,
+  }: {
+    messageId: string;
+    templates?: TemplateSelection[];
+    model?: string;
+  }) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    const original = messages[index];
+    const prompt = messages[index - 1];
+    if (!original || prompt?.role !== "user" || !conversationId) {
+      throw new Error("Only replies in a saved conversation can be regenerated");
+    }
+
+    const versions: MessageVersion[] = original.versions ?? [
+      { id: original.id, content: original.content, data: original.data },
+    ];
+    const updateMessage = (update: (msg: Message) => Message) => {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === messageId ? update(msg) : msg))
+      );
+    };
+
+    setMessages([
+      ...messages.slice(0, index),
+      { ...original, content: "", data: undefined, isStreaming: true },
+    ]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const response = await chatApi.streamMessage(
+        {
+          message: prompt.content,
+          templates,
+          conversationId,
+          model,
+          regenerateMessageId: messageId,
+        },
+        (token) =>
+          updateMessage((msg) => ({ ...msg, content: msg.content + token })),
+        controller.signal
+      );
+
+      const version: MessageVersion = {
+        id: response.messageId ?? `assistant-${Date.now()}`,
+        content: response.response,
+        data: response.data,
+      };
+      updateMessage((msg) => ({
+        ...msg,
+        ...version,
+        isStreaming: false,
+        versions: [...versions, version],
+      }));
+
+      return response;
+    } catch (error) {
+      setMessages(messages);
+      // Stopping a regeneration just keeps the versions there were
+      if (controller.signal.aborted) {
+        return undefined;
+      }
+      throw error;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  /**
+   * Replace a stored prompt with an edited one and stream its reply
+   * The edit starts a new branch, leaving later turns on the original one;
+   * a failed or stopped edit leaves the conversation as it was
+   */
+  const streamEdit = async ({
+    messageId,
+    message,
+    templates,
+    model,
+  }: {
+    messageId: string;
+    message: string;
+    templates?: TemplateSelection[];
+    model?: string;
+  }) => {
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    const original = messages[index];
+    if (original?.role !== "user" || !conversationId) {
+      throw new Error("Only messages in a saved conversation can be edited");
+    }
+
+    const versions: MessageVersion[] = original.versions ?? [
+      { id: original.id, content: original.content },
+    ];
+    const assistantMessageId = `assistant-${Date.now()}`;
+    const updateAssistantMessage = (update: (msg: Message) => Message) => {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === assistantMessageId ? update(msg) : msg))
+      );
+    };
+
+    setMessages([
+      ...messages.slice(0, index),
+      { ...original, content: message, timestamp: new Date() },
+      {
+        id: assistantMessageId,
+        content: "",
+        role: "assistant",
+        timestamp: new Date(),
+        isStreaming: true,
+      },
+    ]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const response = await chatApi.streamMessage(
+        {
+          message,
+          templates,
+          conversationId,
+          model,
+          editMessageId: messageId,
+        },
+        (token) =>
+          updateAssistantMessage((msg) => ({
+            ...msg,
+            content: msg.content + token,
+          })),
+        controller.signal
+      );
+
+      const version: MessageVersion = {
+        id: response.userMessageId ?? `user-${Date.now()}`,
+        content: message,
+      };
+      setMessages((prev) =>
+        prev.map((msg) => {
+          if (msg.id === messageId) {
+            return { ...msg, id: version.id, versions: [...versions, version] };
+          }
+          if (msg.id === assistantMessageId) {
+            return {
+              ...msg,
+              id: response.messageId ?? msg.id,
+              content: response.response,
+              data: response.data,
+              isStreaming: false,
+            };
+          }
+          return msg;
+        })
+      );
+
+      return response;
+    } catch (error) {
+      setMessages(messages);
+      if (controller.signal.aborted) {
+        return undefined;
+      }
+      throw error;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  };
 
   const sendMessageMutation = useMutation({
     mutationFn: async ({
       message,
-      templateId,
-      variables,
+      templates,
+      model,
+      regenerateMessageId,
+      editMessageId,
     }: {
       message: string;
-      templateId?: string;
-      variables?: Record<string, string | number | boolean>;
+      templates?: TemplateSelection[];
+      model?: string;
+      regenerateMessageId?: string;
+      editMessageId?: string;
     }) => {
-      // Convert messages to conversation history format
-      const conversationHistory = messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+      // The server builds the next turn from the active branch
+      const shown = messages.filter((msg) => !msg.stopped);
+      if (viewingBranchRef.current && conversationId && shown.length > 0) {
+        await conversationsApi.selectVersion(
+          conversationId,
+          shown[shown.length - 1].id
+        );
+        viewingBranchRef.current = false;
+      }
+
+      if (regenerateMessageId) {
+        return streamRegeneration({
+          messageId: regenerateMessageId,
+          templates,
+          model,
+        });
+      }
+      if (editMessageId) {
+        return streamEdit({
+          messageId: editMessageId,
+          message,
+          templates,
+          model,
+        });
+      }
+
+      // Convert messages to conversation history format; stopped exchanges
+      // stay off the conversation until kept, so the model doesn't see
+      // them either
+      const conversationHistory = messages
+        .filter((msg) => !msg.stopped)
+        .map((msg) => ({
+          role: msg.role,
+          content: msg.content,
+        }));
 
-      return chatApi.sendMessage(
-        message,
-        templateId,
-        variables,
-        conversationHistory
-      );
-    },
-    onSuccess: (data: { response: string }, variables) => {
-      // Add user message
       const userMessage: Message = {
         id: `user-${Date.now()}`,
-        content: variables.message,
+        content: message,
         role: "user",
         timestamp: new Date(),
       };
 
-      // Add assistant response
+      // In-progress assistant message that tokens are appended to
+      const assistantMessageId = `assistant-${Date.now()}`;
       const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        content: data.response,
+        id: assistantMessageId,
+        content: "",
         role: "assistant",
         timestamp: new Date(),
+        isStreaming: true,
       };
 
       setMessages((prev) => [...prev, userMessage, assistantMessage]);
+
+      const updateAssistantMessage = (update: (msg: Message) => Message) => {
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === assistantMessageId ? update(msg) : msg))
+        );
+      };
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      // Where the server stores the exchange, stopped or not
+      let exchange: SavedExchange | undefined;
+      let received = "";
+
+      try {
+        const response = await chatApi.streamMessage(
+          {
+            message,
+            templates,
+            conversationHistory,
+            conversationId,
+            model,
+          },
+          (token) => {
+            received += token;
+            updateAssistantMessage((msg) => ({
+              ...msg,
+              content: msg.content + token,
+            }));
+          },
+          controller.signal,
+          (started) => {
+            exchange = started;
+          }
+        );
+
+        // Stored IDs let the reply be regenerated later
+        setMessages((prev) =>
+          prev.map((msg) => {
+            if (msg.id === userMessage.id && response.userMessageId) {
+              return { ...msg, id: response.userMessageId };
+            }
+            if (msg.id === assistantMessageId) {
+              return {
+                ...msg,
+                id: response.messageId ?? msg.id,
+                content: response.response,
+                data: response.data,
+                isStreaming: false,
+              };
+            }
+            return msg;
+          })
+        );
+
+        // The server creates the conversation on the first exchange
+        if (response.conversationId) {
+          setConversationId(response.conversationId);
+        }
+
+        return response;
+      } catch (error) {
+        // A stopped reply stays on screen until the user keeps or discards
+        // it; one stopped before any token leaves nothing to keep. The
+        // server saves it under the IDs it announced, so only a signed-in
+        // user's reply can be kept
+        if (controller.signal.aborted) {
+          const stopped = exchange;
+          setMessages((prev) =>
+            received
+              ? prev.map((msg) => {
+                  if (msg.id === userMessage.id) {
+                    return {
+                      ...msg,
+                      id: stopped?.userMessageId ?? msg.id,
+                      stopped: true,
+                    };
+                  }
+                  if (msg.id === assistantMessageId) {
+                    return {
+                      ...msg,
+                      id: stopped?.assistantMessageId ?? msg.id,
+                      isStreaming: false,
+                      stopped: true,
+                    };
+                  }
+                  return msg;
+                })
+              : prev.filter(
+                  (msg) =>
+                    msg.id !== userMessage.id && msg.id !== assistantMessageId
+                )
+          );
+          // A new conversation holding the stopped reply
+          if (received && stopped) {
+            setConversationId(stopped.conversationId);
+          }
+          return undefined;
+        }
+
+        // Drop the failed exchange so it isn't sent as history next turn
+        setMessages((prev) =>
+          prev.filter(
+            (msg) =>
+              msg.id !== userMessage.id && msg.id !== assistantMessageId
+          )
+        );
+        throw error;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
     },
   });
 
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Keep a stopped exchange the server saved; messageId is its assistant
+   * message
+   */
+  const keepStoppedReply = useCallback(
+    async (messageId: string): Promise<void> => {
+      const index = messages.findIndex((msg) => msg.id === messageId);
+      const userMessage = messages[index - 1];
+      if (!messages[index]?.stopped) return;
+      if (!conversationId) {
+        throw new Error("Sign in to keep stopped replies");
+      }
+
+      await conversationsApi.keepStoppedReply(conversationId, messageId);
+
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === messageId ||
+          (userMessage?.stopped && msg.id === userMessage.id)
+            ? { ...msg, stopped: false }
+            : msg
+        )
+      );
+    },
+    [messages, conversationId]
+  );
+
+  /**
+   * Drop a stopped exchange; messageId is its assistant message
+   */
+  const discardStoppedReply = useCallback(
+    async (messageId: string): Promise<void> => {
+      const index = messages.findIndex((msg) => msg.id === messageId);
+      if (index === -1 || !messages[index].stopped) return;
+      const userMessage = messages[index - 1];
+
+      setMessages((prev) =>
+        prev.filter(
+          (msg) =>
+            msg.id !== messageId &&
+            !(userMessage?.stopped && msg.id === userMessage.id)
+        )
+      );
+
+      // Only a signed-in user's stopped reply was saved
+      if (conversationId) {
+        try {
+          const { conversationDeleted } =
+            await conversationsApi.discardStoppedReply(conversationId, messageId);
+          if (conversationDeleted) {
+            setConversationId(undefined);
+          }
+        } catch (error) {
+          // Left off the conversation either way
+          console.error("Failed to discard stopped reply:", error);
+        }
+      }
+    },
+    [messages, conversationId]
+  );
+
   const sendMessage = useCallback(
     async (content: string): Promise<void> => {
       if (!content.trim()) return;
 
       await sendMessageMutation.mutateAsync({
         message: content,
-        templateId: selectedTemplateId,
-        variables: templateVariables,
+        templates: selectedTemplates,
+        model: selectedModel,
+      });
+    },
+    [sendMessageMutation, selectedTemplates, selectedModel]
+  );
+
+  const regenerateMessage = useCallback(
+    async (messageId: string): Promise<void> => {
+      await sendMessageMutation.mutateAsync({
+        message: "",
+        templates: selectedTemplates,
+        model: selectedModel,
+        regenerateMessageId: messageId,
+      });
+    },
+    [sendMessageMutation, selectedTemplates, selectedModel]
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string): Promise<void> => {
+      if (!content.trim()) return;
+
+      await sendMessageMutation.mutateAsync({
+        message: content,
+        templates: selectedTemplates,
+        model: selectedModel,
+        editMessageId: messageId,
       });
     },
-    [sendMessageMutation, selectedTemplateId, templateVariables]
+    [sendMessageMutation, selectedTemplates, selectedModel]
+  );
+
+  /**
+   * Switch to another version of a message; the rest of the conversation
+   * follows that version's branch, and it's what the next turn sees
+   */
+  const selectVersion = useCallback(
+    async (messageId: string, versionId: string): Promise<void> => {
+      if (!conversationId || messageId === versionId) return;
+
+      await conversationsApi.selectVersion(conversationId, versionId);
+      viewingBranchRef.current = false;
+      const conversation = await conversationsApi.get(conversationId);
+      setMessages(conversation.messages.map(toMessage));
+    },
+    [conversationId]
   );
 
   const clearMessages = useCallback(() => {
     setMessages([]);
+    viewingBranchRef.current = false;
+    // Next message starts a new stored conversation
+    setConversationId(undefined);
     // Clear any cached queries if needed
     queryClient.clear();
   }, [queryClient]);
 
-  const updateTemplate = useCallback(
-    (
-      templateId: string | undefined,
-      variables: Record<string, string | number | boolean> = {}
-    ) => {
-      setSelectedTemplateId(templateId);
-      setTemplateVariables(variables);
+  /**
+   * Open a stored conversation; with messageId, that message's branch is
+   * shown, and it becomes the active one only once the user sends,
+   * regenerates or edits from it
+   */
+  const loadConversation = useCallback(
+    async (id: string, messageId?: string): Promise<void> => {
+      const conversation = await conversationsApi.get(id, messageId);
+      setMessages(conversation.messages.map(toMessage));
+      setConversationId(conversation.id);
+      viewingBranchRef.current = Boolean(messageId);
     },
     []
   );
 
+  const updateTemplates = useCallback((templates: TemplateSelection[]) => {
+    setSelectedTemplates(templates);
+  }, []);
+
+  const updateModel = useCallback((model: string | undefined) => {
+    setSelectedModel(model);
+  }, []);
+
+  // Memoised so a new object only appears when the mutation fails again
+  const error = useMemo((): ChatError | null => {
+    const mutationError = sendMessageMutation.error;
+    if (!mutationError) return null;
+    return mutationError instanceof ChatApiError
+      ? {
+          error: mutationError.message,
+          code: mutationError.code,
+          retryAfter: mutationError.retryAfter,
+        }
+      : { error: mutationError.message };
+  }, [sendMessageMutation.error]);
+
   return {
     messages,
     isLoading: sendMessageMutation.isPending,
-    error: sendMessageMutation.error?.message || null,
+    error,
     sendMessage,
+    stopGeneration,
+    keepStoppedReply,
+    discardStoppedReply,
+    regenerateMessage,
+    editMessage,
+    selectVersion,
     clearMessages,
-    selectedTemplateId,
-    templateVariables,
-    updateTemplate,
+    conversationId,
+    loadConversation,
+    selectedModel,
+    updateModel,
+    selectedTemplates,
+    updateTemplates,
   };
 };
@@ -1,4 +1,23 @@
-import { ChatRequest, ChatResponse } from "@/types";
+import {
+  ChatError,
+  ChatErrorCode,
+  ChatModelsResponse,
+  ChatRequest,
+  ChatResponse,
+  ConversationDetail,
+  ConversationShareSummary,
+  ConversationSummary,
+  CreateImportRequest,
+  DiscardStoppedReplyResponse,
+  CreateShareRequest,
+  ExportFormat,
+  ImportSummary,
+  JobListResponse,
+  JobStatusName,
+  MessageSearchResult,
+  SavedExchange,
+} from "@/types";
+import { parseSSEStream } from "@/lib/sse";
 
 const API_BASE_URL = "/api";
 
@@ -17,12 +36,44 @@ export interface UsageStats {
   };
 }
 
+/**
+ * A failed chat request, carrying the server's error code
+ */
+export class ChatApiError extends Error {
+  readonly code?: ChatErrorCode;
+  readonly retryAfter?: number;
+
+  constructor({ error, code, retryAfter }: ChatError) {
+    super(error);
+    this.name = "ChatApiError";
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Read the error body of a failed chat response; proxies can answer with
+ * non-JSON pages, which get a generic message
+ */
+const readChatError = async (response: Response): Promise<ChatApiError> => {
+  const errorData: Partial<ChatError> = await response
+    .json()
+    .catch(() => ({}));
+  return new ChatApiError({
+    error: errorData.error || "Failed to send message",
+    code: errorData.code,
+    retryAfter: errorData.retryAfter,
+  });
+};
+
 export const chatApi = {
   sendMessage: async (
     message: string,
     templateId?: string,
     templateVariables?: Record<string, string | number | boolean>,
-    conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>
+    conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>,
+    conversationId?: string,
+    signal?: AbortSignal
   ): Promise<ChatResponse> => {
     const response = await fetch(`${API_BASE_URL}/chat`, {
       method: "POST",
@@ -34,12 +85,71 @@ export const chatApi = {
         templateId,
         templateVariables,
         conversationHistory,
+        conversationId,
       } as ChatRequest),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readChatError(response);
+    }
+
+    return response.json();
+  },
+
+  // onStart gets the IDs a signed-in user's new exchange is stored under,
+  // which a stopped reply keeps
+  streamMessage: async (
+    request: Omit<ChatRequest, "stream">,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    onStart?: (exchange: SavedExchange) => void
+  ): Promise<ChatResponse> => {
+    const response = await fetch(`${API_BASE_URL}/chat`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...request, stream: true } as ChatRequest),
+      signal,
+    });
+
+    // Errors raised before streaming starts (limits, templates) come back as JSON
+    if (!response.ok || !response.body) {
+      throw await readChatError(response);
+    }
+
+    for await (const event of parseSSEStream(response.body)) {
+      switch (event.type) {
+        case "start":
+          onStart?.(event.exchange);
+          break;
+        case "token":
+          onToken(event.content);
+          break;
+        case "done":
+          return event.response;
+        case "error":
+          throw new ChatApiError(event);
+      }
+    }
+
+    throw new Error("Stream ended before the response completed");
+  },
+};
+
+export const modelsApi = {
+  list: async (): Promise<ChatModelsResponse> => {
+    const response = await fetch(`${API_BASE_URL}/models`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
     });
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to send message");
+      throw new Error(errorData.error || "Failed to load models");
     }
 
     return response.json();
@@ -63,3 +173,381 @@ export const usageApi = {
     return response.json();
   },
 };
+
+export const conversationsApi = {
+  list: async (): Promise<ConversationSummary[]> => {
+    const response = await fetch(`${API_BASE_URL}/conversations`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to load conversations");
+    }
+
+    const data = await response.json();
+    return data.conversations;
+  },
+
+  // With messageId, the branch through that message; the active branch
+  // stays as it is
+  get: async (
+    conversationId: string,
+    messageId?: string
+  ): Promise<ConversationDetail> => {
+    const query = messageId
+      ? `?${new URLSearchParams({ messageId })}`
+      : "";
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}${query}`,
+      {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to load conversation");
+    }
+
+    const data = await response.json();
+    return data.conversation;
+  },
+
+  // Keep a reply the user stopped; the server saved it when it was stopped
+  keepStoppedReply: async (
+    conversationId: string,
+    messageId: string
+  ): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(
+        conversationId
+      )}/messages/${encodeURIComponent(messageId)}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ stopped: false }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to save reply");
+    }
+  },
+
+  discardStoppedReply: async (
+    conversationId: string,
+    messageId: string
+  ): Promise<DiscardStoppedReplyResponse> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(
+        conversationId
+      )}/messages/${encodeURIComponent(messageId)}`,
+      {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to discard reply");
+    }
+
+    return response.json();
+  },
+
+  // Make a message (a version, or a search hit) part of the active branch,
+  // which is the one sent as history
+  selectVersion: async (
+    conversationId: string,
+    messageId: string
+  ): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(
+        conversationId
+      )}/messages/${encodeURIComponent(messageId)}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ selected: true }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to switch version");
+    }
+  },
+
+  rename: async (
+    conversationId: string,
+    title: string | null
+  ): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ title }),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to rename conversation");
+    }
+  },
+
+  delete: async (conversationId: string): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}`,
+      {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to delete conversation");
+    }
+  },
+};
+
+// Downloads are plain links, so these just build the URLs
+export const exportApi = {
+  conversationUrl: (conversationId: string, format: ExportFormat): string =>
+    `${API_BASE_URL}/conversations/${encodeURIComponent(
+      conversationId
+    )}/export?format=${format}`,
+
+  // Zip with one file per conversation
+  allConversationsUrl: (format: ExportFormat): string =>
+    `${API_BASE_URL}/conversations/export?format=${format}`,
+};
+
+export const sharesApi = {
+  list: async (conversationId: string): Promise<ConversationShareSummary[]> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}/shares`,
+      {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to fetch share links");
+    }
+
+    const data = await response.json();
+    return data.shares;
+  },
+
+  // Snapshot the active branch behind a new public link
+  create: async (
+    conversationId: string,
+    request: CreateShareRequest
+  ): Promise<ConversationShareSummary> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}/shares`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(request),
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to create share link");
+    }
+
+    return response.json();
+  },
+
+  revoke: async (conversationId: string, shareId: string): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/conversations/${encodeURIComponent(
+        conversationId
+      )}/shares/${encodeURIComponent(shareId)}`,
+      {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to revoke share link");
+    }
+  },
+
+  // Public page for a share link
+  pageUrl: (token: string): string =>
+    `${window.location.origin}/share/${encodeURIComponent(token)}`,
+};
+
+export const searchApi = {
+  // Full-text search over stored messages, optionally with semantic hits
+  search: async (
+    query: string,
+    { semantic = false }: { semantic?: boolean } = {}
+  ): Promise<MessageSearchResult[]> => {
+    const params = new URLSearchParams({ q: query });
+    if (semantic) {
+      params.set("semantic", "true");
+    }
+    const response = await fetch(`${API_BASE_URL}/search?${params}`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Search failed");
+    }
+
+    const data = await response.json();
+    return data.results;
+  },
+};
+
+export const importsApi = {
+  // Start importing a parsed conversations file
+  create: async (request: CreateImportRequest): Promise<ImportSummary> => {
+    const response = await fetch(`${API_BASE_URL}/imports`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to start import");
+    }
+
+    return response.json();
+  },
+
+  list: async (): Promise<ImportSummary[]> => {
+    const response = await fetch(`${API_BASE_URL}/imports`, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to fetch imports");
+    }
+
+    const data = await response.json();
+    return data.imports;
+  },
+
+  // Continue an unfinished import from where it stopped
+  resume: async (importId: string): Promise<ImportSummary> => {
+    const response = await fetch(
+      `${API_BASE_URL}/imports/${encodeURIComponent(importId)}/resume`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to resume import");
+    }
+
+    return response.json();
+  },
+};
+
+export const adminApi = {
+  listJobs: async (status: JobStatusName = "DEAD"): Promise<JobListResponse> => {
+    const response = await fetch(
+      `${API_BASE_URL}/admin/jobs?status=${encodeURIComponent(status)}`,
+      {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to load jobs");
+    }
+
+    return response.json();
+  },
+
+  retryJob: async (jobId: string): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/admin/jobs/${encodeURIComponent(jobId)}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to retry job");
+    }
+  },
+
+  discardJob: async (jobId: string): Promise<void> => {
+    const response = await fetch(
+      `${API_BASE_URL}/admin/jobs/${encodeURIComponent(jobId)}`,
+      {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to discard job");
+    }
+  },
+};
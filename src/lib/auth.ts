@@ -1,4 +1,5 @@
-import { NextAuthOptions } from "next-auth";
+import { NextResponse } from "next/server";
+import { getServerSession, NextAuthOptions } from "next-auth";
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
 import CredentialsProvider from "next-auth/providers/credentials";
 import GoogleProvider from "next-auth/providers/google";
@@ -99,3 +100,33 @@ export const authOptions: NextAuthOptions = {
   // Security settings
   secret: process.env.NEXTAUTH_SECRET,
 };
+
+/**
+ * Whether an email belongs to an admin (ADMIN_EMAILS, comma-separated)
+ */
+export const isAdminEmail = (email?: string | null): boolean => {
+  if (!email) {
+    return false;
+  }
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((admin) => admin.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+};
+
+/**
+ * Guard for admin API routes: the error response to send, or null when
+ * the caller is a signed-in admin
+ */
+export async function checkAdmin(): Promise<NextResponse | null> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isAdminEmail(session.user.email)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return null;
+}
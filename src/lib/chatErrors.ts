@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { ProviderError, ProviderErrorKind } from "@/lib/chatProviders";
+import { StructuredOutputError } from "@/lib/structuredOutput";
+import { ChatError, ChatErrorCode } from "@/types";
+
+/**
+ * HTTP status for each chat error code
+ */
+export const CHAT_ERROR_STATUS: Record<ChatErrorCode, number> = {
+  invalid_request: 400,
+  unsupported_model: 400,
+  not_found: 404,
+  context_length_exceeded: 413,
+  limit_exceeded: 429,
+  rate_limited: 429,
+  provider_auth: 502,
+  invalid_model_output: 502,
+  provider_unavailable: 503,
+  provider_timeout: 504,
+  // Non-standard (nginx's "client closed request"); the client is gone
+  cancelled: 499,
+  internal_error: 500,
+};
+
+// What users are told about provider failures; upstream messages can leak
+// configuration details, so they are only logged
+const PROVIDER_ERRORS: Record<
+  ProviderErrorKind,
+  { code: ChatErrorCode; message: string }
+> = {
+  rate_limit: {
+    code: "rate_limited",
+    message: "The model provider is receiving too many requests.",
+  },
+  context_length: {
+    code: "context_length_exceeded",
+    message:
+      "This conversation is too long for the selected model. Start a new conversation or pick a model with a larger context window.",
+  },
+  auth: {
+    code: "provider_auth",
+    message: "The model provider rejected the server's credentials.",
+  },
+  timeout: {
+    code: "provider_timeout",
+    message: "The model provider took too long to respond.",
+  },
+  unavailable: {
+    code: "provider_unavailable",
+    message: "The model provider is unavailable right now.",
+  },
+  // We built a request the provider refused, so it's our bug
+  bad_request: {
+    code: "internal_error",
+    message: "Error communicating with the model provider.",
+  },
+};
+
+/**
+ * A chat request failure with a code the client can act on
+ */
+export class ChatRequestError extends Error {
+  readonly code: ChatErrorCode;
+  /** Seconds to wait before retrying, when known */
+  readonly retryAfter?: number;
+  /** Extra fields for the response body, e.g. limit usage */
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    code: ChatErrorCode,
+    message: string,
+    options: {
+      retryAfter?: number;
+      details?: Record<string, unknown>;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = "ChatRequestError";
+    this.code = code;
+    this.retryAfter = options.retryAfter;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+
+  get status(): number {
+    return CHAT_ERROR_STATUS[this.code];
+  }
+
+  /**
+   * Body sent to the client, in JSON responses and stream error events
+   */
+  toPayload(): ChatError & Record<string, unknown> {
+    return {
+      ...this.details,
+      error: this.message,
+      code: this.code,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+    };
+  }
+}
+
+/**
+ * Classify any error thrown while handling a chat request
+ */
+export function toChatRequestError(error: unknown): ChatRequestError {
+  if (error instanceof ChatRequestError) {
+    return error;
+  }
+
+  if (error instanceof ProviderError) {
+    const { code, message } = PROVIDER_ERRORS[error.kind];
+    return new ChatRequestError(code, message, {
+      retryAfter: error.retryAfter,
+      cause: error,
+    });
+  }
+
+  if (error instanceof StructuredOutputError) {
+    return new ChatRequestError("invalid_model_output", error.message, {
+      cause: error,
+    });
+  }
+
+  // request.json() throws SyntaxError on a malformed body
+  if (error instanceof SyntaxError) {
+    return new ChatRequestError(
+      "invalid_request",
+      "Invalid JSON in request body",
+      { cause: error }
+    );
+  }
+
+  return new ChatRequestError(
+    "internal_error",
+    "Something went wrong while generating the reply.",
+    { cause: error }
+  );
+}
+
+/**
+ * JSON error response for a chat error, with a Retry-After header when
+ * the wait is known
+ */
+export function chatErrorResponse(error: ChatRequestError): NextResponse {
+  return NextResponse.json(error.toPayload(), {
+    status: error.status,
+    ...(error.retryAfter !== undefined && {
+      headers: { "Retry-After": String(error.retryAfter) },
+    }),
+  });
+}
@@ -0,0 +1,328 @@
+import { ApiService } from "@prisma/client";
+import { parseSSEStream } from "@/lib/sse";
+import {
+  ProviderError,
+  ProviderErrorKind,
+  parseRetryAfter,
+  providerErrorKindForStatus,
+} from "./errors";
+import {
+  ChatProvider,
+  CompletionRequest,
+  CompletionResult,
+  CompletionStreamChunk,
+  ProviderMessage,
+  ToolCall,
+} from "./types";
+
+const ANTHROPIC_API_VERSION = "2023-06-01";
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Error types sent in-stream, where there's no HTTP status to go by
+const STREAM_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  rate_limit_error: "rate_limit",
+  overloaded_error: "unavailable",
+  api_error: "unavailable",
+  authentication_error: "auth",
+  permission_error: "auth",
+};
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicMessageResponse {
+  content: Array<{
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+  }>;
+  usage?: AnthropicUsage;
+}
+
+type AnthropicStreamEvent =
+  | { type: "message_start"; message: { usage?: AnthropicUsage } }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block: { type: string; id?: string; name?: string };
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta: { type: string; text?: string; partial_json?: string };
+    }
+  | { type: "message_delta"; usage?: AnthropicUsage }
+  | { type: "error"; error: { type: string; message: string } }
+  | { type: "ping" | "content_block_stop" | "message_stop" };
+
+/**
+ * Parse tool arguments into the object Anthropic expects as `input`
+ */
+const parseToolInput = (args: string): unknown => {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Convert non-system messages into Anthropic's format
+ * Tool results travel in user messages; consecutive ones are merged since
+ * roles must alternate
+ */
+const toAnthropicMessages = (messages: ProviderMessage[]): AnthropicMessage[] => {
+  const result: AnthropicMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      continue;
+    }
+
+    if (msg.role === "tool") {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: msg.toolCallId,
+        content: msg.content,
+      };
+      const previous = result[result.length - 1];
+      if (
+        previous?.role === "user" &&
+        Array.isArray(previous.content) &&
+        previous.content.every((item) => item.type === "tool_result")
+      ) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (msg.role === "assistant" && msg.toolCalls?.length) {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(msg.content
+            ? [{ type: "text" as const, text: msg.content }]
+            : []),
+          ...msg.toolCalls.map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: msg.role, content: msg.content });
+  }
+
+  return result;
+};
+
+interface AnthropicChatProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+/**
+ * Provider for the Anthropic Messages API, or any server compatible with it
+ * Embeddings aren't offered, so another provider must supply them
+ */
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name = "anthropic" as const;
+  readonly service = ApiService.ANTHROPIC;
+  readonly defaultModel = "claude-3-5-haiku-latest";
+
+  constructor(private readonly options: AnthropicChatProviderOptions = {}) {}
+
+  /**
+   * Build the Messages API body
+   * System messages (template, RAG context) are merged into `system`
+   */
+  private toRequestBody(request: CompletionRequest, stream: boolean) {
+    const system = request.messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      ...(system && { system }),
+      messages: toAnthropicMessages(request.messages),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+        tool_choice: { type: request.toolChoice ?? "auto" },
+      }),
+      stream,
+    };
+  }
+
+  private async post(body: unknown, signal?: AbortSignal): Promise<Response> {
+    const apiKey = this.options.apiKey;
+    if (!apiKey) {
+      throw new ProviderError(
+        "auth",
+        "ANTHROPIC_API_KEY is not set in environment variables"
+      );
+    }
+
+    const baseURL = (this.options.baseURL || DEFAULT_BASE_URL).replace(/\/$/, "");
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal,
+    }).catch((error) => {
+      if (signal?.aborted) {
+        throw error;
+      }
+      // Otherwise fetch only rejects when the server couldn't be reached
+      throw new ProviderError("unavailable", "Anthropic API is unreachable", {
+        cause: error,
+      });
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(
+        providerErrorKindForStatus(response.status, errorText),
+        `Anthropic API error ${response.status}: ${errorText}`,
+        {
+          status: response.status,
+          retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+        }
+      );
+    }
+
+    return response;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(
+      this.toRequestBody(request, false),
+      request.signal
+    );
+    const data = (await response.json()) as AnthropicMessageResponse;
+
+    const inputTokens = data.usage?.input_tokens ?? 0;
+    const outputTokens = data.usage?.output_tokens ?? 0;
+
+    const toolCalls: ToolCall[] = data.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id ?? "",
+        name: block.name ?? "",
+        arguments: JSON.stringify(block.input ?? {}),
+      }));
+
+    return {
+      content: data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join(""),
+      model: request.model,
+      usage: data.usage
+        ? { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+        : undefined,
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+
+  async *streamComplete(
+    request: CompletionRequest
+  ): AsyncIterable<CompletionStreamChunk> {
+    const response = await this.post(
+      this.toRequestBody(request, true),
+      request.signal
+    );
+    if (!response.body) {
+      throw new Error("Anthropic API returned an empty stream");
+    }
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // tool_use blocks by content index; input arrives as JSON fragments
+    const toolCalls = new Map<number, ToolCall>();
+
+    for await (const event of parseSSEStream<AnthropicStreamEvent>(
+      response.body
+    )) {
+      switch (event.type) {
+        case "message_start":
+          inputTokens = event.message.usage?.input_tokens ?? 0;
+          outputTokens = event.message.usage?.output_tokens ?? 0;
+          break;
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            toolCalls.set(event.index, {
+              id: event.content_block.id ?? "",
+              name: event.content_block.name ?? "",
+              arguments: "",
+            });
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta" && event.delta.text) {
+            yield { type: "token", content: event.delta.text };
+          } else if (event.delta.type === "input_json_delta") {
+            const call = toolCalls.get(event.index);
+            if (call) {
+              call.arguments += event.delta.partial_json ?? "";
+            }
+          }
+          break;
+        case "message_delta":
+          // Output tokens are cumulative in message_delta
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case "error":
+          throw new ProviderError(
+            STREAM_ERROR_KINDS[event.error.type] ?? "bad_request",
+            `Anthropic stream error: ${event.error.message}`
+          );
+      }
+    }
+
+    if (toolCalls.size > 0) {
+      yield { type: "tool_calls", toolCalls: Array.from(toolCalls.values()) };
+    }
+
+    yield {
+      type: "usage",
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+}
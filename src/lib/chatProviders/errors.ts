@@ -0,0 +1,78 @@
+/**
+ * Kinds of provider failure, normalised across vendors
+ */
+export type ProviderErrorKind =
+  | "rate_limit"
+  | "context_length"
+  | "auth"
+  | "timeout"
+  | "unavailable"
+  | "bad_request";
+
+/**
+ * A failed provider call, classified so callers can react per kind
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  /** Upstream HTTP status, when there was a response */
+  readonly status?: number;
+  /** Seconds the provider asked us to wait before retrying */
+  readonly retryAfter?: number;
+
+  constructor(
+    kind: ProviderErrorKind,
+    message: string,
+    options: { status?: number; retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(
+  header: string | null | undefined
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Classify an HTTP error status; the body is checked for context-length
+ * overflows, which vendors report as a generic 400
+ */
+export function providerErrorKindForStatus(
+  status: number,
+  body = ""
+): ProviderErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limit";
+  if (
+    (status === 400 || status === 413) &&
+    /context[_ ]length|maximum context|prompt is too long|too many tokens/i.test(
+      body
+    )
+  ) {
+    return "context_length";
+  }
+  if (status >= 500) return "unavailable";
+  return "bad_request";
+}
@@ -0,0 +1,182 @@
+import { ApiService } from "@prisma/client";
+import { AnthropicChatProvider } from "./anthropicProvider";
+import { MockChatProvider } from "./mockProvider";
+import { OpenAIChatProvider } from "./openaiProvider";
+import { getFallbackModels, getUnusableFallbackModels } from "./models";
+import { ResilientChatProvider } from "./resilience";
+import { ChatProvider, ChatProviderName } from "./types";
+
+export type {
+  ChatProvider,
+  ChatProviderName,
+  CompletionAttempt,
+  CompletionRequest,
+  CompletionResult,
+  CompletionStreamChunk,
+  ProviderMessage,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from "./types";
+export { ProviderError, type ProviderErrorKind } from "./errors";
+export {
+  getAllowedChatModels,
+  getChatModelOptions,
+  getFallbackModels,
+  isAllowedChatModel,
+} from "./models";
+
+const CHAT_PROVIDER_NAMES: ChatProviderName[] = [
+  "openai",
+  "anthropic",
+  "openai-compatible",
+  "mock",
+];
+
+// Cached per provider name so clients are created once per process
+const providers = new Map<ChatProviderName, ChatProvider>();
+
+/**
+ * Read and validate a provider name from an env var
+ */
+const readProviderName = (
+  envVar: string,
+  fallback: ChatProviderName
+): ChatProviderName => {
+  const configured = process.env[envVar]?.toLowerCase();
+  if (!configured) {
+    return fallback;
+  }
+
+  if (!CHAT_PROVIDER_NAMES.includes(configured as ChatProviderName)) {
+    throw new Error(
+      `Invalid ${envVar} "${configured}". Expected one of: ${CHAT_PROVIDER_NAMES.join(
+        ", "
+      )}`
+    );
+  }
+  return configured as ChatProviderName;
+};
+
+/**
+ * Create a provider instance from environment configuration
+ */
+const createChatProvider = (name: ChatProviderName): ChatProvider => {
+  switch (name) {
+    case "openai":
+      return new OpenAIChatProvider({
+        name,
+        service: ApiService.OPENAI,
+        apiKey:
+          process.env.OPENAI_API_KEY || process.env.NEXT_PUBLIC_OPENAI_API_KEY,
+        defaultModel: "gpt-3.5-turbo",
+        defaultEmbeddingModel: "text-embedding-3-small",
+      });
+    case "anthropic":
+      return new AnthropicChatProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        baseURL: process.env.ANTHROPIC_BASE_URL,
+      });
+    case "openai-compatible": {
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          "OPENAI_COMPATIBLE_BASE_URL is not set in environment variables"
+        );
+      }
+      return new OpenAIChatProvider({
+        name,
+        service: ApiService.OPENAI_COMPATIBLE,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        apiKeyEnvVar: "OPENAI_COMPATIBLE_API_KEY",
+        baseURL,
+        // Self-hosted servers have no canonical model, e.g. "llama3.1" on Ollama
+        defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || "llama3.1",
+        defaultEmbeddingModel:
+          process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || "nomic-embed-text",
+      });
+    }
+    case "mock":
+      return new MockChatProvider();
+  }
+};
+
+/**
+ * Get a provider by name, creating it on first use
+ * Providers are wrapped with retries, timeouts and the fallback chain
+ */
+export const getProvider = (name: ChatProviderName): ChatProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    const resilient: ChatProvider = new ResilientChatProvider(
+      createChatProvider(name),
+      (model) => getFallbackModels(resilient, getChatModel(), model)
+    );
+    provider = resilient;
+    providers.set(name, provider);
+
+    const unusable = getUnusableFallbackModels(resilient, getChatModel());
+    if (unusable.length > 0) {
+      console.warn(
+        `CHAT_FALLBACK_MODELS entries skipped by the ${name} provider (not priced or not in CHAT_MODELS): ${unusable.join(", ")}`
+      );
+    }
+  }
+  return provider;
+};
+
+/**
+ * Override a provider (tests use this to inject a configured mock)
+ */
+export const setProvider = (
+  name: ChatProviderName,
+  provider: ChatProvider | null
+): void => {
+  if (provider) {
+    providers.set(name, provider);
+  } else {
+    providers.delete(name);
+  }
+};
+
+/**
+ * Get the provider used for chat completions (CHAT_PROVIDER, default openai)
+ */
+export const getChatProvider = (): ChatProvider =>
+  getProvider(readProviderName("CHAT_PROVIDER", "openai"));
+
+/**
+ * Get the provider used for embeddings
+ * EMBEDDING_PROVIDER wins; otherwise the chat provider if it has an
+ * embeddings API, else OpenAI
+ */
+export const getEmbeddingProvider = (): ChatProvider => {
+  const chatProvider = getChatProvider();
+  const fallback = chatProvider.embed ? chatProvider.name : "openai";
+  const provider = getProvider(readProviderName("EMBEDDING_PROVIDER", fallback));
+
+  if (!provider.embed || !provider.defaultEmbeddingModel) {
+    throw new Error(`Provider "${provider.name}" does not support embeddings`);
+  }
+  return provider;
+};
+
+/**
+ * Model used for chat completions (CHAT_MODEL or the provider default)
+ */
+export const getChatModel = (): string =>
+  process.env.CHAT_MODEL || getChatProvider().defaultModel;
+
+/**
+ * Model used for embeddings (EMBEDDING_MODEL or the provider default)
+ */
+export const getEmbeddingModel = (): string =>
+  process.env.EMBEDDING_MODEL || getEmbeddingProvider().defaultEmbeddingModel!;
+
+/**
+ * Embed a batch of texts with the configured embedding provider
+ */
+export const embedTexts = async (input: string[]) => {
+  const provider = getEmbeddingProvider();
+  return provider.embed!(input, getEmbeddingModel());
+};
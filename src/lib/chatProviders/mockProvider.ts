@@ -0,0 +1,174 @@
+import { ApiService } from "@prisma/client";
+import { JsonSchema } from "@/types";
+import {
+  ChatProvider,
+  CompletionRequest,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingResult,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+// Matches text-embedding-3-small so mock vectors fit the pgvector column
+export const MOCK_EMBEDDING_DIMENSIONS = 1536;
+
+// A user message like `/tool calculator {"expression":"2+2"}` makes the
+// mock call that tool, so the tool loop can be exercised offline
+const TOOL_COMMAND = /^\/tool\s+(\S+)\s*([\s\S]*)$/;
+
+/**
+ * Rough token count: one token per whitespace-separated word
+ */
+const countTokens = (text: string): number =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Deterministic string hash (FNV-1a)
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Placeholder value of the shape a schema describes
+ */
+const sampleFromSchema = (schema: JsonSchema): unknown => {
+  if (schema.enum?.length) {
+    return schema.enum[0];
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== "null") ?? "null"
+    : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          sampleFromSchema(property),
+        ])
+      );
+    case "array":
+      return [];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return "mock";
+  }
+};
+
+/**
+ * Deterministic provider for tests and offline development
+ * Replies echo the last user message (or fill in the requested JSON
+ * schema); embeddings are hashed bags of words,
+ * so texts sharing words get similar vectors
+ */
+export class MockChatProvider implements ChatProvider {
+  readonly name = "mock" as const;
+  readonly service = ApiService.MOCK;
+  readonly defaultModel = "mock-chat";
+  readonly defaultEmbeddingModel = "mock-embedding";
+
+  private buildReply(request: CompletionRequest): {
+    content: string;
+    usage: TokenUsage;
+    toolCalls?: ToolCall[];
+  } {
+    const lastUserMessage =
+      [...request.messages].reverse().find((msg) => msg.role === "user")
+        ?.content ?? "";
+    const lastMessage = request.messages[request.messages.length - 1];
+
+    let content = `Mock reply to: ${lastUserMessage}`;
+    let toolCalls: ToolCall[] | undefined;
+
+    const command = lastUserMessage.match(TOOL_COMMAND);
+    if (lastMessage?.role === "tool") {
+      // Answer with the results of the tool round
+      const results = request.messages
+        .filter((msg) => msg.role === "tool")
+        .map((msg) => msg.content);
+      content += `\nTool results: ${results.join("; ")}`;
+    } else if (request.responseSchema) {
+      content = JSON.stringify(sampleFromSchema(request.responseSchema));
+    } else if (
+      command &&
+      request.toolChoice !== "none" &&
+      request.tools?.some((tool) => tool.name === command[1])
+    ) {
+      content = "";
+      toolCalls = [
+        {
+          id: `mock-call-${hashString(lastUserMessage).toString(36)}`,
+          name: command[1],
+          arguments: command[2] || "{}",
+        },
+      ];
+    }
+
+    const inputTokens = request.messages.reduce(
+      (total, msg) => total + countTokens(msg.content),
+      0
+    );
+    const outputTokens = countTokens(content);
+
+    return {
+      content,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      toolCalls,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    request.signal?.throwIfAborted();
+    const { content, usage, toolCalls } = this.buildReply(request);
+    return { content, model: request.model, usage, ...(toolCalls && { toolCalls }) };
+  }
+
+  async *streamComplete(
+    request: CompletionRequest
+  ): AsyncIterable<CompletionStreamChunk> {
+    const { content, usage, toolCalls } = this.buildReply(request);
+
+    // One chunk per word, keeping the whitespace that follows it
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      request.signal?.throwIfAborted();
+      yield { type: "token", content: token };
+    }
+    if (toolCalls) {
+      yield { type: "tool_calls", toolCalls };
+    }
+    yield { type: "usage", usage };
+  }
+
+  async embed(input: string[], model: string): Promise<EmbeddingResult> {
+    const embeddings = input.map((text) => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/\w+/g) ?? []) {
+        vector[hashString(word) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map((v) => v / norm) : vector;
+    });
+
+    return {
+      embeddings,
+      model,
+      usage: {
+        totalTokens: input.reduce((total, text) => total + countTokens(text), 0),
+      },
+    };
+  }
+}
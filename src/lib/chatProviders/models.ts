@@ -0,0 +1,111 @@
+import {
+  CHAT_PRICING,
+  isPricedChatModel,
+  isUnmeteredService,
+  PROVIDER_CHAT_PRICING,
+} from "@/lib/pricing";
+import { ChatModelOption } from "@/types";
+import { ChatProvider } from "./types";
+
+/**
+ * Models listed in a comma-separated env var
+ */
+const readModelList = (envVar: string): string[] =>
+  (process.env[envVar] ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+/**
+ * Models listed in the optional CHAT_MODELS env var
+ */
+const readConfiguredModels = (): string[] => readModelList("CHAT_MODELS");
+
+/**
+ * Models users may request from a provider
+ * Metered providers only allow models we have pricing for, so the
+ * pre-flight limit check is never costed with a guess; CHAT_MODELS can
+ * narrow that list. Self-hosted and mock providers allow their default
+ * model plus anything in CHAT_MODELS.
+ */
+export const getAllowedChatModels = (
+  provider: ChatProvider,
+  defaultModel: string
+): string[] => {
+  const configured = readConfiguredModels();
+
+  if (isUnmeteredService(provider.service)) {
+    return Array.from(new Set([defaultModel, ...configured]));
+  }
+
+  const priced = Object.keys(
+    PROVIDER_CHAT_PRICING[
+      provider.service as keyof typeof PROVIDER_CHAT_PRICING
+    ] ?? {}
+  );
+  if (configured.length === 0) {
+    return priced;
+  }
+  return priced.filter((model) => configured.includes(model));
+};
+
+/**
+ * Check whether a model may be requested from a provider
+ */
+export const isAllowedChatModel = (
+  provider: ChatProvider,
+  defaultModel: string,
+  model: string
+): boolean => getAllowedChatModels(provider, defaultModel).includes(model);
+
+/**
+ * Allowed models with their per-1K token pricing, for the model picker
+ */
+export const getChatModelOptions = (
+  provider: ChatProvider,
+  defaultModel: string
+): ChatModelOption[] =>
+  getAllowedChatModels(provider, defaultModel).map((id) => {
+    if (!isPricedChatModel(id, provider.service)) {
+      return { id };
+    }
+    const pricing = CHAT_PRICING[id as keyof typeof CHAT_PRICING];
+    return {
+      id,
+      inputPricePer1K: pricing.input,
+      outputPricePer1K: pricing.output,
+    };
+  });
+
+/**
+ * Models to try, in order, when a model keeps failing
+ * CHAT_FALLBACK_MODELS is an ordered chain such as
+ * "gpt-4o,gpt-4o-mini,gpt-3.5-turbo"; a model falls back to the allowed
+ * models after it. Models outside the chain have no fallback.
+ */
+export const getFallbackModels = (
+  provider: ChatProvider,
+  defaultModel: string,
+  model: string
+): string[] => {
+  const chain = readModelList("CHAT_FALLBACK_MODELS");
+  const position = chain.indexOf(model);
+  if (position < 0) {
+    return [];
+  }
+  return chain
+    .slice(position + 1)
+    .filter((fallback) => isAllowedChatModel(provider, defaultModel, fallback));
+};
+
+/**
+ * CHAT_FALLBACK_MODELS entries the provider won't use, e.g. unpriced
+ * models on a metered provider
+ */
+export const getUnusableFallbackModels = (
+  provider: ChatProvider,
+  defaultModel: string
+): string[] =>
+  readModelList("CHAT_FALLBACK_MODELS").filter(
+    (model) => !isAllowedChatModel(provider, defaultModel, model)
+  );
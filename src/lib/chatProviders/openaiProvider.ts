@@ -0,0 +1,282 @@
+import OpenAI from "openai";
+import { ApiService } from "@prisma/client";
+import {
+  ProviderError,
+  parseRetryAfter,
+  providerErrorKindForStatus,
+} from "./errors";
+import {
+  ChatProvider,
+  ChatProviderName,
+  CompletionRequest,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingResult,
+  ProviderMessage,
+  TokenUsage,
+  ToolCall,
+} from "./types";
+
+interface OpenAIChatProviderOptions {
+  name: ChatProviderName;
+  service: ApiService;
+  apiKey?: string;
+  /** Override for OpenAI-compatible servers (Ollama, vLLM, llama.cpp) */
+  baseURL?: string;
+  defaultModel: string;
+  defaultEmbeddingModel?: string;
+  /** Name of the env var holding the key, used in the missing-key error */
+  apiKeyEnvVar?: string;
+}
+
+/**
+ * Convert OpenAI usage into our normalised shape
+ */
+const toTokenUsage = (
+  usage: OpenAI.CompletionUsage | null | undefined
+): TokenUsage | undefined =>
+  usage
+    ? {
+        inputTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        totalTokens: usage.total_tokens || 0,
+      }
+    : undefined;
+
+/**
+ * Convert our messages into OpenAI's chat format
+ */
+const toOpenAIMessages = (
+  messages: ProviderMessage[]
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] =>
+  messages.map((msg) => {
+    switch (msg.role) {
+      case "assistant":
+        return {
+          role: "assistant",
+          content: msg.content,
+          ...(msg.toolCalls?.length && {
+            tool_calls: msg.toolCalls.map((call) => ({
+              id: call.id,
+              type: "function" as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }),
+        };
+      case "tool":
+        return {
+          role: "tool",
+          tool_call_id: msg.toolCallId,
+          content: msg.content,
+        };
+      default:
+        return { role: msg.role, content: msg.content };
+    }
+  });
+
+/**
+ * Classify an OpenAI SDK error; anything else is passed through
+ */
+const toProviderError = (error: unknown): unknown => {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new ProviderError("timeout", error.message, { cause: error });
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new ProviderError("unavailable", error.message, { cause: error });
+  }
+  if (error instanceof OpenAI.APIError && error.status) {
+    return new ProviderError(
+      error.code === "context_length_exceeded"
+        ? "context_length"
+        : providerErrorKindForStatus(error.status, error.message),
+      error.message,
+      {
+        status: error.status,
+        retryAfter: parseRetryAfter(error.headers?.get("retry-after")),
+        cause: error,
+      }
+    );
+  }
+  return error;
+};
+
+/**
+ * Whether a model accepts response_format json_object; base gpt-4
+ * predates JSON mode
+ */
+const supportsJsonMode = (model: string): boolean => model !== "gpt-4";
+
+/**
+ * Request fields shared by streaming and non-streaming completions
+ */
+const toCompletionParams = (request: CompletionRequest) => ({
+  model: request.model,
+  messages: toOpenAIMessages(request.messages),
+  temperature: request.temperature,
+  max_tokens: request.maxTokens,
+  ...(request.tools?.length && {
+    tools: request.tools.map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    })),
+    tool_choice: request.toolChoice ?? "auto",
+  }),
+  ...(request.responseSchema &&
+    supportsJsonMode(request.model) && {
+      response_format: { type: "json_object" as const },
+    }),
+});
+
+/**
+ * Provider for the OpenAI API and any server speaking its protocol
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name: ChatProviderName;
+  readonly service: ApiService;
+  readonly defaultModel: string;
+  readonly defaultEmbeddingModel?: string;
+
+  private client: OpenAI | null = null;
+
+  constructor(private readonly options: OpenAIChatProviderOptions) {
+    this.name = options.name;
+    this.service = options.service;
+    this.defaultModel = options.defaultModel;
+    this.defaultEmbeddingModel = options.defaultEmbeddingModel;
+  }
+
+  /**
+   * Get or create the OpenAI client instance
+   */
+  private getClient(): OpenAI {
+    if (this.client) {
+      return this.client;
+    }
+
+    // Self-hosted servers usually accept any key
+    const apiKey =
+      this.options.apiKey || (this.options.baseURL ? "not-needed" : undefined);
+    if (!apiKey) {
+      throw new ProviderError(
+        "auth",
+        `${this.options.apiKeyEnvVar || "OPENAI_API_KEY"} is not set in environment variables`
+      );
+    }
+
+    this.client = new OpenAI({
+      apiKey,
+      // Retries and timeouts are handled by the resilience layer
+      maxRetries: 0,
+      ...(this.options.baseURL && { baseURL: this.options.baseURL }),
+    });
+
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const completion = await this.getClient()
+      .chat.completions.create(toCompletionParams(request), {
+        signal: request.signal,
+      })
+      .catch((error) => {
+        throw toProviderError(error);
+      });
+
+    const message = completion.choices[0]?.message;
+    const toolCalls: ToolCall[] = (message?.tool_calls ?? []).flatMap((call) =>
+      call.type === "function"
+        ? [
+            {
+              id: call.id,
+              name: call.function.name,
+              arguments: call.function.arguments,
+            },
+          ]
+        : []
+    );
+
+    return {
+      content: message?.content ?? "",
+      model: request.model,
+      usage: toTokenUsage(completion.usage),
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+
+  async *streamComplete(
+    request: CompletionRequest
+  ): AsyncIterable<CompletionStreamChunk> {
+    try {
+      const stream = await this.getClient().chat.completions.create(
+        {
+          ...toCompletionParams(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal }
+      );
+
+      // Tool calls arrive in fragments keyed by index
+      const toolCalls: ToolCall[] = [];
+      let usage: TokenUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          yield { type: "token", content: delta.content };
+        }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index] ??= {
+            id: "",
+            name: "",
+            arguments: "",
+          });
+          call.id ||= fragment.id ?? "";
+          call.name += fragment.function?.name ?? "";
+          call.arguments += fragment.function?.arguments ?? "";
+        }
+        // The usage chunk arrives last, with an empty choices array
+        usage = toTokenUsage(chunk.usage) ?? usage;
+      }
+
+      const completedCalls = toolCalls.filter(Boolean);
+      if (completedCalls.length > 0) {
+        yield { type: "tool_calls", toolCalls: completedCalls };
+      }
+      if (usage) {
+        yield { type: "usage", usage };
+      }
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async embed(
+    input: string[],
+    model: string,
+    signal?: AbortSignal
+  ): Promise<EmbeddingResult> {
+    const response = await this.getClient()
+      .embeddings.create({ model, input }, { signal })
+      .catch((error) => {
+        throw toProviderError(error);
+      });
+
+    // Results carry their input index; sort so vectors line up with input
+    const embeddings = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+
+    return {
+      embeddings,
+      model,
+      usage: response.usage
+        ? { totalTokens: response.usage.total_tokens }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,236 @@
+import { ProviderError } from "./errors";
+import {
+  ChatProvider,
+  CompletionAttempt,
+  CompletionRequest,
+  CompletionResult,
+  CompletionStreamChunk,
+  EmbeddingResult,
+} from "./types";
+
+/**
+ * Retries, per-attempt timeouts and model fallback for provider calls
+ *
+ * Transient failures (rate limits, 5xx, timeouts) are retried with
+ * exponential backoff and full jitter. When a model's retries run out the
+ * next model in its fallback chain is tried. Streams are only retried
+ * until their first chunk; after that a failure reaches the caller.
+ */
+
+/**
+ * Retry settings, read from the environment
+ */
+export interface RetryPolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Time allowed per attempt; for streams, until the first chunk */
+  timeoutMs: number;
+  baseDelayMs: number;
+  /**
+   * Longest wait between attempts; a longer Retry-After moves on to the
+   * next model
+   */
+  maxDelayMs: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+const readNumber = (envVar: string, fallback: number): number => {
+  const value = Number(process.env[envVar]);
+  return process.env[envVar] && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+};
+
+/**
+ * Retry policy from CHAT_MAX_RETRIES and CHAT_TIMEOUT_MS
+ */
+export const getRetryPolicy = (): RetryPolicy => ({
+  maxRetries: readNumber("CHAT_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+  timeoutMs: readNumber("CHAT_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+  baseDelayMs: BASE_DELAY_MS,
+  maxDelayMs: MAX_DELAY_MS,
+});
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ProviderError &&
+  (error.kind === "rate_limit" ||
+    error.kind === "unavailable" ||
+    error.kind === "timeout");
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Full-jitter exponential backoff, or the provider's Retry-After
+ */
+const getRetryDelay = (
+  policy: RetryPolicy,
+  retry: number,
+  error: unknown
+): number => {
+  const retryAfter =
+    error instanceof ProviderError ? error.retryAfter : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter * 1000;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.random() * ceiling;
+};
+
+/**
+ * Call each model in turn, retrying transient failures, until one succeeds
+ * The caller's signal aborts everything; each attempt also gets its own
+ * timeout. Throws the last error when every model has failed.
+ */
+async function callWithRetries<T>(
+  models: string[],
+  policy: RetryPolicy,
+  callerSignal: AbortSignal | undefined,
+  call: (model: string, signal: AbortSignal) => Promise<T>
+): Promise<{ value: T; model: string; attempts: CompletionAttempt[] }> {
+  const attempts: CompletionAttempt[] = [];
+  let lastError: unknown;
+
+  for (const model of models) {
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+      const signal = callerSignal
+        ? AbortSignal.any([callerSignal, controller.signal])
+        : controller.signal;
+      const startedAt = Date.now();
+
+      try {
+        const value = await call(model, signal);
+        attempts.push({ model, durationMs: Date.now() - startedAt });
+        return { value, model, attempts };
+      } catch (error) {
+        if (callerSignal?.aborted) {
+          throw error;
+        }
+        lastError = controller.signal.aborted
+          ? new ProviderError(
+              "timeout",
+              `No response from ${model} within ${policy.timeoutMs}ms`,
+              { cause: error }
+            )
+          : error;
+        attempts.push({
+          model,
+          error:
+            lastError instanceof ProviderError ? lastError.kind : "unknown",
+          durationMs: Date.now() - startedAt,
+        });
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!isRetryable(lastError)) {
+        throw lastError;
+      }
+      if (retry === policy.maxRetries) {
+        break;
+      }
+      const delay = getRetryDelay(policy, retry, lastError);
+      // Waiting that long would stall the user; try the next model instead
+      if (delay > policy.maxDelayMs) {
+        break;
+      }
+      await sleep(delay);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Wraps a provider with retries, timeouts and a fallback chain
+ */
+export class ResilientChatProvider implements ChatProvider {
+  readonly name: ChatProvider["name"];
+  readonly service: ChatProvider["service"];
+  readonly defaultModel: string;
+  readonly defaultEmbeddingModel?: string;
+  readonly embed?: ChatProvider["embed"];
+
+  constructor(
+    private readonly inner: ChatProvider,
+    /** Models to try, in order, after the requested one fails */
+    private readonly getFallbackModels: (model: string) => string[],
+    private readonly getPolicy: () => RetryPolicy = getRetryPolicy
+  ) {
+    this.name = inner.name;
+    this.service = inner.service;
+    this.defaultModel = inner.defaultModel;
+    this.defaultEmbeddingModel = inner.defaultEmbeddingModel;
+    if (inner.embed) {
+      this.embed = (input, model, signal) =>
+        this.embedWithRetries(input, model, signal);
+    }
+  }
+
+  private getModels(model: string): string[] {
+    return [model, ...this.getFallbackModels(model).filter((m) => m !== model)];
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { value, model, attempts } = await callWithRetries(
+      this.getModels(request.model),
+      this.getPolicy(),
+      request.signal,
+      (model, signal) => this.inner.complete({ ...request, model, signal })
+    );
+    return { ...value, model, attempts };
+  }
+
+  async *streamComplete(
+    request: CompletionRequest
+  ): AsyncIterable<CompletionStreamChunk> {
+    // An attempt succeeds once its first chunk arrives
+    const { value, model, attempts } = await callWithRetries(
+      this.getModels(request.model),
+      this.getPolicy(),
+      request.signal,
+      async (model, signal) => {
+        const iterator = this.inner
+          .streamComplete({ ...request, model, signal })
+          [Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      }
+    );
+
+    // A consumer that stops early (the client aborted) ends this generator
+    // at a yield, so the inner stream is closed here to release its HTTP
+    // response
+    let result = value.first;
+    try {
+      yield { type: "attempts", model, attempts };
+      for (; !result.done; result = await value.iterator.next()) {
+        yield result.value;
+      }
+    } finally {
+      if (!result.done) {
+        await value.iterator.return?.();
+      }
+    }
+  }
+
+  private async embedWithRetries(
+    input: string[],
+    model: string,
+    signal?: AbortSignal
+  ): Promise<EmbeddingResult> {
+    // Vectors from different models aren't comparable, so no fallback
+    const { value, attempts } = await callWithRetries(
+      [model],
+      this.getPolicy(),
+      signal,
+      (model, attemptSignal) => this.inner.embed!(input, model, attemptSignal)
+    );
+    return { ...value, attempts };
+  }
+}
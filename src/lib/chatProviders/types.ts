@@ -0,0 +1,132 @@
+import { ApiService } from "@prisma/client";
+import { JsonSchema } from "@/types";
+import { ProviderErrorKind } from "./errors";
+
+/**
+ * Available chat providers, selected with the CHAT_PROVIDER env var
+ */
+export type ChatProviderName =
+  | "openai"
+  | "anthropic"
+  | "openai-compatible"
+  | "mock";
+
+/**
+ * A tool call requested by the model; arguments are a JSON string
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A tool the model may call, described with a JSON schema
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A message in a completion request
+ * Assistant messages may carry tool calls; tool messages answer one call
+ */
+export type ProviderMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; content: string; toolCallId: string };
+
+/**
+ * Token usage reported by a provider, normalised across vendors
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Parameters for a chat completion
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ProviderMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+  /** "none" forbids further tool calls while keeping tools defined */
+  toolChoice?: "auto" | "none";
+  /**
+   * Ask for a bare JSON reply matching this schema. Providers use their JSON
+   * mode where they have one; callers still put the schema in the prompt
+   * and validate the reply
+   */
+  responseSchema?: JsonSchema;
+  /** Aborts the call; providers pass it to their HTTP client */
+  signal?: AbortSignal;
+}
+
+/**
+ * One try of a provider call, recorded by the resilience layer
+ */
+export interface CompletionAttempt {
+  model: string;
+  /** Why the attempt failed; unset for the attempt that succeeded */
+  error?: ProviderErrorKind | "unknown";
+  durationMs: number;
+}
+
+/**
+ * Result of a non-streaming chat completion
+ */
+export interface CompletionResult {
+  content: string;
+  /** The model that answered, which may be a fallback */
+  model: string;
+  usage?: TokenUsage;
+  /** Set when the model wants tools run before it answers */
+  toolCalls?: ToolCall[];
+  /** Every try, including the one that answered */
+  attempts?: CompletionAttempt[];
+}
+
+/**
+ * Chunks yielded by a streaming completion; the answering model comes
+ * before the first token, tool calls and usage after the last
+ */
+export type CompletionStreamChunk =
+  | { type: "attempts"; model: string; attempts: CompletionAttempt[] }
+  | { type: "token"; content: string }
+  | { type: "tool_calls"; toolCalls: ToolCall[] }
+  | { type: "usage"; usage: TokenUsage };
+
+/**
+ * Result of an embedding call, one vector per input
+ */
+export interface EmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage?: { totalTokens: number };
+  attempts?: CompletionAttempt[];
+}
+
+/**
+ * A chat model vendor: completions, optional embeddings and usage reporting
+ */
+export interface ChatProvider {
+  readonly name: ChatProviderName;
+  /** Service that usage of this provider is billed under */
+  readonly service: ApiService;
+  readonly defaultModel: string;
+  /** Undefined when the provider has no embeddings API */
+  readonly defaultEmbeddingModel?: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  streamComplete(request: CompletionRequest): AsyncIterable<CompletionStreamChunk>;
+  embed?(
+    input: string[],
+    model: string,
+    signal?: AbortSignal
+  ): Promise<EmbeddingResult>;
+}
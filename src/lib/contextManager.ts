@@ -0,0 +1,332 @@
+import { ChatProvider, ProviderMessage } from "@/lib/chatProviders";
+import {
+  HistoryMessage,
+  findHistorySummary,
+  saveHistorySummary,
+} from "@/lib/conversations";
+import { logChatCompletion } from "@/lib/costTracking";
+import { calculateChatCompletionCost } from "@/lib/pricing";
+import { countMessageTokens } from "@/lib/tokenEstimator";
+
+/**
+ * Context-window management for chat history
+ *
+ * History is trimmed from the oldest end to fit a token budget. For stored
+ * conversations the dropped turns are folded into a rolling summary that
+ * is saved against the last message it covers, so each turn is summarised
+ * only once per branch.
+ */
+
+// Context window (prompt + reply) per model, in tokens
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-3.5-turbo": 16385,
+  "gpt-4": 8192,
+  "gpt-4-turbo": 128000,
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "claude-3-5-haiku-latest": 200000,
+  "claude-3-5-sonnet-latest": 200000,
+};
+
+// Self-hosted models vary widely; assume a small window
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Cap on history tokens even when the window is larger, since every turn
+// re-bills the history it sends
+const HISTORY_TOKEN_BUDGET = 6000;
+
+// Room left for the summary message, and its length limit
+const SUMMARY_MAX_TOKENS = 400;
+
+// Room for the summarisation prompt and the previous summary
+const SUMMARY_PROMPT_OVERHEAD = 1000;
+
+const SUMMARY_SYSTEM_PROMPT =
+  "You maintain a running summary of a chat between a user and an assistant. " +
+  "Merge the new messages into the summary so far. Keep facts, names, " +
+  "decisions, preferences and open questions; drop pleasantries. " +
+  "Reply with the updated summary only, in under 250 words.";
+
+/**
+ * Get the context window of a model
+ */
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Options for fitting history into a model's context window
+ */
+export interface FitHistoryOptions {
+  provider: ChatProvider;
+  model: string;
+  /** Model used to write summaries; normally the provider's default */
+  summaryModel: string;
+  /** Everything sent besides history (system, template, RAG, current message) */
+  fixedMessages: ProviderMessage[];
+  history: HistoryMessage[];
+  maxOutputTokens: number;
+  userId?: string;
+  /** Stored conversation; without it dropped turns are not summarised */
+  conversationId?: string;
+  /** Aborts a summary call along with the request */
+  signal?: AbortSignal;
+  /**
+   * Checked with the estimated cost before summarising; when it returns
+   * false the dropped turns aren't summarised
+   */
+  canSpend?: (estimatedCost: number) => Promise<boolean>;
+}
+
+/**
+ * History ready to send, with the cost of any summary written
+ */
+export interface FittedHistory {
+  messages: ProviderMessage[];
+  droppedMessages: number;
+  summaryCost: number;
+}
+
+const toProviderMessage = (msg: HistoryMessage): ProviderMessage => ({
+  role: msg.role,
+  content: msg.content,
+});
+
+const toSummaryMessage = (summary: string): ProviderMessage => ({
+  role: "system",
+  content: `Summary of the earlier conversation:\n${summary}`,
+});
+
+/**
+ * Index of the oldest message that still fits, walking back from the newest
+ */
+const findFirstKept = (tokens: number[], budget: number): number => {
+  let used = 0;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (used + tokens[i] > budget) {
+      return i + 1;
+    }
+    used += tokens[i];
+  }
+  return 0;
+};
+
+/**
+ * Group turns into transcript chunks that fit the summary model
+ */
+const chunkTurns = (
+  turns: HistoryMessage[],
+  model: string
+): { lines: string[]; tokens: number }[] => {
+  const chunkBudget =
+    getContextWindow(model) - SUMMARY_MAX_TOKENS - SUMMARY_PROMPT_OVERHEAD;
+
+  const chunks = [{ lines: [] as string[], tokens: 0 }];
+  for (const turn of turns) {
+    const line = `${turn.role === "user" ? "User" : "Assistant"}: ${
+      turn.content
+    }`;
+    const lineTokens = countMessageTokens([turn], model);
+    const current = chunks[chunks.length - 1];
+    if (current.tokens + lineTokens > chunkBudget && current.lines.length > 0) {
+      chunks.push({ lines: [line], tokens: lineTokens });
+    } else {
+      current.lines.push(line);
+      current.tokens += lineTokens;
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Worst-case cost of summarising the given chunks
+ */
+const estimateSummaryCost = (
+  chunks: { tokens: number }[],
+  model: string,
+  service: string
+): number =>
+  chunks.reduce(
+    (sum, chunk) =>
+      sum +
+      calculateChatCompletionCost(
+        model,
+        chunk.tokens + SUMMARY_PROMPT_OVERHEAD,
+        SUMMARY_MAX_TOKENS,
+        service
+      ),
+    0
+  );
+
+/**
+ * Fold transcript chunks into a running summary, one call per chunk
+ */
+async function summarizeTurns(
+  provider: ChatProvider,
+  model: string,
+  previousSummary: string | null,
+  chunks: { lines: string[] }[],
+  options: { userId?: string; conversationId: string; signal?: AbortSignal }
+): Promise<{ summary: string; cost: number }> {
+  let summary = previousSummary;
+  let cost = 0;
+  for (const chunk of chunks) {
+    const completion = await provider.complete({
+      model,
+      messages: [
+        { role: "system", content: SUMMARY_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content:
+            (summary ? `Summary so far:\n${summary}\n\n` : "") +
+            `New messages:\n${chunk.lines.join("\n")}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      signal: options.signal,
+    });
+
+    if (!completion.content) {
+      throw new Error("Empty summary from model");
+    }
+    summary = completion.content.trim();
+
+    if (completion.usage && options.userId) {
+      cost += await logChatCompletion(
+        completion.model,
+        completion.usage.inputTokens,
+        completion.usage.outputTokens,
+        {
+          userId: options.userId,
+          conversationId: options.conversationId,
+          service: provider.service,
+          metadata: {
+            purpose: "history-summary",
+            ...(completion.attempts && { attempts: completion.attempts }),
+          },
+        }
+      );
+    }
+  }
+
+  return { summary: summary ?? "", cost };
+}
+
+/**
+ * Trim history to fit the model's context window and the history budget
+ * Fixed messages are never touched. Dropped turns of a stored conversation
+ * are replaced by its rolling summary, extended as more turns drop off;
+ * other callers just lose the oldest turns.
+ */
+export async function fitHistoryToContext(
+  options: FitHistoryOptions
+): Promise<FittedHistory> {
+  const { history, model, conversationId } = options;
+
+  const fixedTokens = countMessageTokens(options.fixedMessages, model);
+  const budget = Math.min(
+    getContextWindow(model) - options.maxOutputTokens - fixedTokens,
+    HISTORY_TOKEN_BUDGET
+  );
+
+  const tokens = history.map((msg) => countMessageTokens([msg], model));
+  const totalTokens = tokens.reduce((sum, count) => sum + count, 0);
+  if (totalTokens <= budget) {
+    return {
+      messages: history.map(toProviderMessage),
+      droppedMessages: 0,
+      summaryCost: 0,
+    };
+  }
+
+  // Leave room for the summary message
+  let firstKept = findFirstKept(tokens, budget - SUMMARY_MAX_TOKENS);
+  // Start on a user turn so no reply is kept without its question
+  while (firstKept < history.length && history[firstKept].role !== "user") {
+    firstKept++;
+  }
+
+  const dropped = history.slice(0, firstKept);
+  const kept = history.slice(firstKept).map(toProviderMessage);
+
+  // Only stored messages have IDs to anchor a summary to
+  if (!conversationId || dropped.some((msg) => !msg.id)) {
+    return { messages: kept, droppedMessages: dropped.length, summaryCost: 0 };
+  }
+
+  // Summaries anchored on other branches don't apply to this one
+  const stored = await findHistorySummary(
+    conversationId,
+    history.map((msg) => msg.id!)
+  );
+  const coveredIndex = stored
+    ? history.findIndex((msg) => msg.id === stored.throughMessageId)
+    : -1;
+  const storedSummary = stored?.summary ?? null;
+
+  // The stored summary already covers every dropped turn
+  if (storedSummary && coveredIndex >= firstKept - 1) {
+    return {
+      messages: [
+        toSummaryMessage(storedSummary),
+        // Turns the summary covers aren't repeated
+        ...history.slice(coveredIndex + 1).map(toProviderMessage),
+      ],
+      droppedMessages: coveredIndex + 1,
+      summaryCost: 0,
+    };
+  }
+
+  // Without a new summary, fall back to the older one (if any) - the
+  // newest turns are still sent
+  const withoutNewSummary: FittedHistory = {
+    messages: storedSummary ? [toSummaryMessage(storedSummary), ...kept] : kept,
+    droppedMessages: dropped.length,
+    summaryCost: 0,
+  };
+
+  const chunks = chunkTurns(
+    history.slice(coveredIndex + 1, firstKept),
+    options.summaryModel
+  );
+  if (
+    options.canSpend &&
+    !(await options.canSpend(
+      estimateSummaryCost(
+        chunks,
+        options.summaryModel,
+        options.provider.service
+      )
+    ))
+  ) {
+    return withoutNewSummary;
+  }
+
+  try {
+    const { summary, cost } = await summarizeTurns(
+      options.provider,
+      options.summaryModel,
+      storedSummary,
+      chunks,
+      { userId: options.userId, conversationId, signal: options.signal }
+    );
+    await saveHistorySummary(
+      conversationId,
+      dropped[dropped.length - 1].id!,
+      summary
+    );
+
+    return {
+      messages: [toSummaryMessage(summary), ...kept],
+      droppedMessages: dropped.length,
+      summaryCost: cost,
+    };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    console.error("Failed to summarize conversation history:", error);
+    return withoutNewSummary;
+  }
+}
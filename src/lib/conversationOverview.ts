@@ -0,0 +1,183 @@
+import { getChatModel, getChatProvider, ProviderMessage } from "@/lib/chatProviders";
+import {
+  findHistorySummary,
+  getConversationHistory,
+  getUserConversation,
+  HistoryMessage,
+  saveConversationDescription,
+} from "@/lib/conversations";
+import { logChatCompletion } from "@/lib/costTracking";
+import {
+  buildSchemaInstruction,
+  completeStructured,
+} from "@/lib/structuredOutput";
+import { countMessageTokens } from "@/lib/tokenEstimator";
+import { JsonSchema } from "@/types";
+
+/**
+ * Automatic conversation titles and overviews
+ *
+ * After the first exchange a cheap model call writes a short title and a
+ * one-paragraph overview; the overview is rewritten every few turns. A
+ * title the user set is never replaced.
+ */
+
+// Turns between overview refreshes (CONVERSATION_OVERVIEW_INTERVAL)
+const DEFAULT_OVERVIEW_INTERVAL = 5;
+
+// Transcript sent to the model; older turns are covered by the rolling
+// history summary when there is one
+const TRANSCRIPT_TOKEN_BUDGET = 3000;
+
+const OVERVIEW_MAX_TOKENS = 300;
+
+const MAX_TITLE_LENGTH = 80;
+
+const OVERVIEW_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    title: {
+      type: "string",
+      description: "At most 6 words, no quotes or trailing punctuation",
+    },
+    overview: {
+      type: "string",
+      description: "One paragraph of at most 80 words",
+    },
+  },
+  required: ["title", "overview"],
+  additionalProperties: false,
+};
+
+const OVERVIEW_SYSTEM_PROMPT =
+  "You name and describe chats between a user and an assistant. Give a " +
+  "short title for the topic and a one-paragraph overview of what was " +
+  "asked and answered.\n\n" +
+  buildSchemaInstruction(OVERVIEW_SCHEMA);
+
+/**
+ * Turns between overview refreshes
+ */
+export const getOverviewInterval = (): number => {
+  const interval = Number(process.env.CONVERSATION_OVERVIEW_INTERVAL);
+  return Number.isInteger(interval) && interval > 0
+    ? interval
+    : DEFAULT_OVERVIEW_INTERVAL;
+};
+
+/**
+ * Model used for titles and overviews (OVERVIEW_MODEL or the chat model)
+ */
+const getOverviewModel = (): string =>
+  process.env.OVERVIEW_MODEL || getChatModel();
+
+/**
+ * Whether the exchange that makes up turn `turn` should be followed by a
+ * new title and overview: the first turn, every interval after it, and
+ * any turn of a conversation still missing its automatic title
+ */
+export function needsOverview(
+  turn: number,
+  conversation?: { title: string | null; titleManual: boolean } | null
+): boolean {
+  if (turn === 1 || turn % getOverviewInterval() === 0) {
+    return true;
+  }
+  return Boolean(conversation && !conversation.title && !conversation.titleManual);
+}
+
+/**
+ * The newest messages that fit the transcript budget, as plain text
+ */
+const buildTranscript = (history: HistoryMessage[], model: string): string => {
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = countMessageTokens([history[i]], model);
+    if (used + tokens > TRANSCRIPT_TOKEN_BUDGET && lines.length > 0) {
+      break;
+    }
+    lines.unshift(
+      `${history[i].role === "user" ? "User" : "Assistant"}: ${history[i].content}`
+    );
+    used += tokens;
+  }
+  return lines.join("\n");
+};
+
+/**
+ * Write a title and overview for a conversation's active branch
+ * Returns the cost logged; nothing is written if the conversation has no
+ * messages or is gone
+ */
+export async function describeConversation(
+  userId: string,
+  conversationId: string
+): Promise<number> {
+  const conversation = await getUserConversation(userId, conversationId);
+  if (!conversation) {
+    return 0;
+  }
+  const history = await getConversationHistory(conversationId);
+  if (history.length === 0) {
+    return 0;
+  }
+  const stored = await findHistorySummary(
+    conversationId,
+    history.map((msg) => msg.id!)
+  );
+
+  const provider = getChatProvider();
+  const model = getOverviewModel();
+  const transcript = buildTranscript(history, model);
+  const messages: ProviderMessage[] = [
+    { role: "system", content: OVERVIEW_SYSTEM_PROMPT },
+    {
+      role: "user",
+      content:
+        (stored
+          ? `Summary of the earlier conversation:\n${stored.summary}\n\n`
+          : "") + `Messages:\n${transcript}`,
+    },
+  ];
+
+  const result = await completeStructured({
+    provider,
+    model,
+    messages,
+    schema: OVERVIEW_SCHEMA,
+    temperature: 0.2,
+    maxTokens: OVERVIEW_MAX_TOKENS,
+    userId,
+    conversationId,
+  });
+
+  let cost = result.repairCost;
+  if (result.usage) {
+    cost += await logChatCompletion(
+      result.model,
+      result.usage.inputTokens,
+      result.usage.outputTokens,
+      {
+        userId,
+        conversationId,
+        service: provider.service,
+        metadata: {
+          purpose: "conversation-overview",
+          ...(result.attempts && { attempts: result.attempts }),
+        },
+      }
+    );
+  }
+
+  const { title, overview } = result.data as { title: string; overview: string };
+  const cleanTitle = title
+    .trim()
+    .replace(/^["']|["'.]$/g, "")
+    .slice(0, MAX_TITLE_LENGTH);
+  await saveConversationDescription(conversationId, {
+    title: cleanTitle || undefined,
+    overview: overview.trim(),
+  });
+  return cost;
+}
@@ -0,0 +1,736 @@
+import { prisma } from "@/lib/prisma";
+import { getReplyCosts } from "@/lib/costTracking";
+import { deleteMessageEmbeddings } from "@/lib/vectorStore";
+import { isTemplateSelection } from "@/lib/templates";
+import {
+  ExportedConversation,
+  MessageVersion,
+  SavedExchange,
+  TemplateSelection,
+} from "@/types";
+
+/**
+ * A stored message in the shape the model expects as history
+ */
+export interface HistoryMessage {
+  id?: string; // Set for stored messages; client-sent history has none
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Find a conversation owned by the given user
+ * Returns null if it doesn't exist or belongs to someone else
+ */
+export async function getUserConversation(
+  userId: string,
+  conversationId: string
+) {
+  return prisma.conversation.findFirst({
+    where: { id: conversationId, userId },
+  });
+}
+
+/**
+ * A stored message with its place in the conversation tree
+ */
+interface TreeMessage {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: Date;
+  parentId: string | null;
+  selected: boolean;
+}
+
+/**
+ * Load every message of a conversation, siblings in creation order
+ * Stopped replies the user hasn't kept yet are left out
+ */
+const loadMessageTree = (conversationId: string): Promise<TreeMessage[]> =>
+  prisma.message.findMany({
+    where: { conversationId, stopped: false },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      role: true,
+      content: true,
+      timestamp: true,
+      parentId: true,
+      selected: true,
+    },
+  });
+
+/**
+ * Walk the active branch from the first message, taking the selected
+ * sibling at each step (the newest if none is)
+ * Siblings in `through` win over the selected one, to walk another branch
+ * without selecting it. Each step carries its siblings, which are the
+ * versions of that message
+ */
+const followActiveBranch = (
+  messages: TreeMessage[],
+  through: Set<string> = new Set()
+) => {
+  const children = new Map<string | null, TreeMessage[]>();
+  for (const msg of messages) {
+    const siblings = children.get(msg.parentId) ?? [];
+    siblings.push(msg);
+    children.set(msg.parentId, siblings);
+  }
+
+  const branch: Array<{ message: TreeMessage; siblings: TreeMessage[] }> = [];
+  let siblings = children.get(null);
+  while (siblings?.length) {
+    const message =
+      siblings.find((msg) => through.has(msg.id)) ??
+      siblings.find((msg) => msg.selected) ??
+      siblings[siblings.length - 1];
+    branch.push({ message, siblings });
+    siblings = children.get(message.id);
+  }
+  return branch;
+};
+
+/**
+ * The messages from the first one down to messageId, whichever branch
+ * it's on
+ */
+const pathTo = (messages: TreeMessage[], messageId: string): TreeMessage[] => {
+  const byId = new Map(messages.map((msg) => [msg.id, msg]));
+  const path: TreeMessage[] = [];
+  let msg = byId.get(messageId);
+  while (msg) {
+    path.unshift(msg);
+    msg = msg.parentId ? byId.get(msg.parentId) : undefined;
+  }
+  return path;
+};
+
+const toHistoryMessage = (msg: TreeMessage): HistoryMessage => ({
+  id: msg.id,
+  role: msg.role === "assistant" ? "assistant" : "user",
+  content: msg.content,
+});
+
+/**
+ * Load the active branch of a conversation, oldest first
+ */
+export async function getConversationHistory(
+  conversationId: string
+): Promise<HistoryMessage[]> {
+  const branch = followActiveBranch(await loadMessageTree(conversationId));
+  return branch.map(({ message }) => toHistoryMessage(message));
+}
+
+/**
+ * How a reply was written, stored alongside it
+ */
+export interface ReplyDetails {
+  model?: string;
+  templates?: TemplateSelection[];
+}
+
+const toReplyData = ({ model, templates }: ReplyDetails) => ({
+  model,
+  ...(templates?.length && {
+    templates,
+  }),
+});
+
+/**
+ * Save a user message and the assistant reply
+ * The prompt follows parentId (the end of the active branch, or the
+ * parent of an edited message) and becomes the selected sibling there.
+ * Creates the conversation on the first exchange. A stopped exchange is
+ * saved off the tree until the user keeps it (see keepStoppedReply)
+ */
+export async function saveExchange({
+  userId,
+  conversationId,
+  parentId,
+  userMessage,
+  assistantMessage,
+  userTimestamp,
+  details = {},
+  ids,
+  stopped = false,
+}: {
+  userId: string;
+  conversationId?: string;
+  parentId?: string;
+  userMessage: string;
+  assistantMessage: string;
+  userTimestamp: Date;
+  details?: ReplyDetails;
+  /** IDs the client was given before the reply streamed */
+  ids?: SavedExchange;
+  stopped?: boolean;
+}): Promise<SavedExchange> {
+  return prisma.$transaction(async (tx) => {
+    // Touching an existing conversation bumps its updatedAt
+    const conversation = conversationId
+      ? await tx.conversation.update({
+          where: { id: conversationId },
+          data: { updatedAt: new Date() },
+        })
+      : await tx.conversation.create({
+          data: { userId, ...(ids && { id: ids.conversationId }) },
+        });
+
+    if (conversationId && !stopped) {
+      await tx.message.updateMany({
+        where: { conversationId, parentId: parentId ?? null },
+        data: { selected: false },
+      });
+    }
+
+    const prompt = await tx.message.create({
+      data: {
+        ...(ids && { id: ids.userMessageId }),
+        conversationId: conversation.id,
+        role: "user",
+        content: userMessage,
+        parentId,
+        timestamp: userTimestamp,
+        ...(stopped && { selected: false, stopped }),
+      },
+    });
+    const reply = await tx.message.create({
+      data: {
+        ...(ids && { id: ids.assistantMessageId }),
+        conversationId: conversation.id,
+        role: "assistant",
+        content: assistantMessage,
+        parentId: prompt.id,
+        ...toReplyData(details),
+        ...(stopped && { selected: false, stopped }),
+      },
+    });
+
+    return {
+      conversationId: conversation.id,
+      userMessageId: prompt.id,
+      assistantMessageId: reply.id,
+    };
+  });
+}
+
+/**
+ * What a stored reply was generated from, for writing another version
+ */
+export interface RegenerationContext {
+  /** The user message being answered */
+  prompt: { id: string; content: string };
+  /** The messages before the prompt on its branch */
+  history: HistoryMessage[];
+}
+
+/**
+ * Load the context a reply was generated from
+ * Returns null unless messageId is an assistant reply in the conversation
+ */
+export async function getRegenerationContext(
+  conversationId: string,
+  messageId: string
+): Promise<RegenerationContext | null> {
+  const messages = await loadMessageTree(conversationId);
+  const reply = messages.find(
+    (msg) => msg.id === messageId && msg.role === "assistant"
+  );
+  if (!reply?.parentId) {
+    return null;
+  }
+
+  const path = pathTo(messages, reply.parentId);
+  const prompt = path[path.length - 1];
+  return {
+    prompt: { id: prompt.id, content: prompt.content },
+    history: path.slice(0, -1).map(toHistoryMessage),
+  };
+}
+
+/**
+ * Where an edited user message branches off
+ */
+export interface EditContext {
+  /** Parent of the edited message; the new prompt becomes its sibling */
+  parentId?: string;
+  /** The messages before the edited one on its branch */
+  history: HistoryMessage[];
+}
+
+/**
+ * Load the context an edited user message replaces
+ * Returns null unless messageId is a user message in the conversation
+ */
+export async function getEditContext(
+  conversationId: string,
+  messageId: string
+): Promise<EditContext | null> {
+  const messages = await loadMessageTree(conversationId);
+  const edited = messages.find(
+    (msg) => msg.id === messageId && msg.role === "user"
+  );
+  if (!edited) {
+    return null;
+  }
+
+  return {
+    parentId: edited.parentId ?? undefined,
+    history: edited.parentId
+      ? pathTo(messages, edited.parentId).map(toHistoryMessage)
+      : [],
+  };
+}
+
+/**
+ * Save another version of a reply and select it
+ * Returns the new message's ID
+ */
+export async function saveAlternative({
+  conversationId,
+  parentId,
+  content,
+  details = {},
+}: {
+  conversationId: string;
+  /** The prompt being answered */
+  parentId: string;
+  content: string;
+  details?: ReplyDetails;
+}): Promise<string> {
+  const [, , alternative] = await prisma.$transaction([
+    prisma.message.updateMany({
+      where: { conversationId, parentId },
+      data: { selected: false },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    }),
+    prisma.message.create({
+      data: {
+        conversationId,
+        role: "assistant",
+        content,
+        parentId,
+        ...toReplyData(details),
+      },
+    }),
+  ]);
+  return alternative.id;
+}
+
+/**
+ * Make one version of a message the selected one, switching the active
+ * branch to the one it starts
+ * Its ancestors are selected too, so any message (e.g. a search hit) can
+ * be brought onto the active branch
+ * Returns false if it isn't a message in a conversation the user owns
+ */
+export async function selectVersion(
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<boolean> {
+  const conversation = await getUserConversation(userId, conversationId);
+  if (!conversation) {
+    return false;
+  }
+  const messages = await loadMessageTree(conversationId);
+  const path = pathTo(messages, messageId);
+  if (path.length === 0) {
+    return false;
+  }
+
+  // Ancestors already on the active branch are left alone
+  const changed = path.filter(
+    (msg, index) => !msg.selected || index === path.length - 1
+  );
+  await prisma.$transaction(
+    changed.flatMap((msg) => [
+      prisma.message.updateMany({
+        where: { conversationId, parentId: msg.parentId },
+        data: { selected: false },
+      }),
+      prisma.message.update({
+        where: { id: msg.id },
+        data: { selected: true },
+      }),
+    ])
+  );
+  return true;
+}
+
+/**
+ * Find the newest stored summary anchored on one of the given messages
+ * Pass a branch's message IDs, oldest first; summaries written on other
+ * branches are ignored but kept for when that branch is active again
+ */
+export async function findHistorySummary(
+  conversationId: string,
+  branchMessageIds: string[]
+): Promise<{ summary: string; throughMessageId: string } | null> {
+  const summaries = await prisma.historySummary.findMany({
+    where: { conversationId, throughMessageId: { in: branchMessageIds } },
+    select: { summary: true, throughMessageId: true },
+  });
+
+  let latest: (typeof summaries)[number] | null = null;
+  let latestIndex = -1;
+  for (const summary of summaries) {
+    const index = branchMessageIds.indexOf(summary.throughMessageId);
+    if (index > latestIndex) {
+      latest = summary;
+      latestIndex = index;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Store the rolling summary of the turns up to and including a message
+ */
+export async function saveHistorySummary(
+  conversationId: string,
+  throughMessageId: string,
+  summary: string
+): Promise<void> {
+  await prisma.historySummary.upsert({
+    where: { throughMessageId },
+    create: { conversationId, throughMessageId, summary },
+    update: { summary },
+  });
+}
+
+/**
+ * A stopped exchange, as kept by the user
+ */
+export interface KeptExchange {
+  promptId: string;
+  prompt: string;
+  reply: string;
+}
+
+/**
+ * Find a user's stopped reply that hasn't been kept or discarded
+ * Returns it with its prompt, which was stopped with it
+ */
+const findStoppedReply = async (
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<KeptExchange | null> => {
+  const reply = await prisma.message.findFirst({
+    where: {
+      id: messageId,
+      conversationId,
+      role: "assistant",
+      stopped: true,
+      parent: { stopped: true },
+      conversation: { userId },
+    },
+    select: {
+      content: true,
+      parent: { select: { id: true, content: true } },
+    },
+  });
+  return reply?.parent
+    ? {
+        promptId: reply.parent.id,
+        prompt: reply.parent.content,
+        reply: reply.content,
+      }
+    : null;
+};
+
+/**
+ * Keep a stopped reply: its exchange continues the active branch, as if
+ * it had just been sent
+ * Returns null if it isn't a stopped reply in a conversation the user owns
+ */
+export async function keepStoppedReply(
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<KeptExchange | null> {
+  const stopped = await findStoppedReply(userId, conversationId, messageId);
+  if (!stopped) {
+    return null;
+  }
+
+  const branch = followActiveBranch(await loadMessageTree(conversationId));
+  const parentId = branch[branch.length - 1]?.message.id ?? null;
+  await prisma.$transaction([
+    prisma.message.updateMany({
+      where: { conversationId, parentId },
+      data: { selected: false },
+    }),
+    prisma.message.update({
+      where: { id: stopped.promptId },
+      data: { parentId, selected: true, stopped: false },
+    }),
+    prisma.message.update({
+      where: { id: messageId },
+      data: { selected: true, stopped: false },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    }),
+  ]);
+  return stopped;
+}
+
+/**
+ * Delete a stopped reply and its prompt
+ * The conversation goes too if nothing is left in it
+ * Returns null if it isn't a stopped reply in a conversation the user
+ * owns, otherwise whether the conversation was deleted
+ */
+export async function discardStoppedReply(
+  userId: string,
+  conversationId: string,
+  messageId: string
+): Promise<{ conversationDeleted: boolean } | null> {
+  const stopped = await findStoppedReply(userId, conversationId, messageId);
+  if (!stopped) {
+    return null;
+  }
+
+  // Deleting the prompt cascades to the reply
+  await prisma.message.delete({ where: { id: stopped.promptId } });
+
+  const { count } = await prisma.conversation.deleteMany({
+    where: { id: conversationId, messages: { none: {} } },
+  });
+  return { conversationDeleted: count > 0 };
+}
+
+/**
+ * Store an automatic description of a conversation
+ * The title is only filled in while the conversation has none and the user
+ * hasn't set one, so a manual title is never replaced
+ */
+export async function saveConversationDescription(
+  conversationId: string,
+  { title, overview }: { title?: string; overview: string }
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { overview },
+    }),
+    ...(title
+      ? [
+          prisma.conversation.updateMany({
+            where: { id: conversationId, title: null, titleManual: false },
+            data: { title },
+          }),
+        ]
+      : []),
+  ]);
+}
+
+/**
+ * Find a user's stored messages containing some text, newest first
+ */
+export async function searchUserMessages(
+  userId: string,
+  query: string,
+  limit: number
+) {
+  return prisma.message.findMany({
+    where: {
+      content: { contains: query, mode: "insensitive" },
+      stopped: false,
+      conversation: { userId },
+    },
+    orderBy: { timestamp: "desc" },
+    take: limit,
+    select: {
+      role: true,
+      content: true,
+      timestamp: true,
+      conversation: { select: { id: true, title: true } },
+    },
+  });
+}
+
+/**
+ * List a user's conversations, most recently active first
+ * One holding nothing but a stopped reply isn't listed until it's kept
+ */
+export async function listUserConversations(userId: string) {
+  return prisma.conversation.findMany({
+    where: { userId, messages: { some: { stopped: false } } },
+    orderBy: { updatedAt: "desc" },
+    select: {
+      id: true,
+      title: true,
+      overview: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+}
+
+/**
+ * Get a user's conversation with the messages of its active branch
+ * Messages with siblings list every version, so the client can switch
+ * branches. With messageId, the branch through that message is returned
+ * instead, without making it the active one.
+ * Returns null if it doesn't exist or belongs to someone else
+ */
+export async function getConversationWithMessages(
+  userId: string,
+  conversationId: string,
+  messageId?: string
+) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, userId },
+    select: {
+      id: true,
+      title: true,
+      overview: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!conversation) {
+    return null;
+  }
+
+  const messages = await loadMessageTree(conversationId);
+  const through = messageId
+    ? new Set(pathTo(messages, messageId).map((msg) => msg.id))
+    : undefined;
+  const branch = followActiveBranch(messages, through);
+  return {
+    ...conversation,
+    messages: branch.map(({ message, siblings }) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      ...(siblings.length > 1 && {
+        versions: siblings.map(
+          ({ id, content }): MessageVersion => ({ id, content })
+        ),
+      }),
+    })),
+  };
+}
+
+/**
+ * Get a user's conversation for export: every message of the tree with
+ * the model, templates and cost behind each reply
+ * Returns null if it doesn't exist or belongs to someone else
+ */
+export async function getConversationExport(
+  userId: string,
+  conversationId: string
+): Promise<ExportedConversation | null> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, userId },
+    select: {
+      id: true,
+      title: true,
+      overview: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  if (!conversation) {
+    return null;
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { conversationId, stopped: false },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      role: true,
+      content: true,
+      timestamp: true,
+      parentId: true,
+      selected: true,
+      model: true,
+      templates: true,
+    },
+  });
+  const costs = await getReplyCosts(conversationId);
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    overview: conversation.overview,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+    activeBranch: followActiveBranch(messages).map(({ message }) => message.id),
+    messages: messages.map((msg) => ({
+      id: msg.id,
+      parentId: msg.parentId,
+      selected: msg.selected,
+      role: msg.role === "assistant" ? "assistant" : "user",
+      content: msg.content,
+      timestamp: msg.timestamp.toISOString(),
+      ...(msg.model && { model: msg.model }),
+      ...(costs.has(msg.id) && { cost: costs.get(msg.id) }),
+      // Malformed entries in the JSON column are dropped, not trusted
+      ...(Array.isArray(msg.templates) && {
+        templates: msg.templates.filter(isTemplateSelection),
+      }),
+    })),
+  };
+}
+
+/**
+ * Rename a user's conversation
+ * A title set here is never replaced by an automatic one; clearing it
+ * lets the next automatic title through
+ * Returns false if it doesn't exist or belongs to someone else
+ */
+export async function renameConversation(
+  userId: string,
+  conversationId: string,
+  title: string | null
+): Promise<boolean> {
+  const result = await prisma.conversation.updateMany({
+    where: { id: conversationId, userId },
+    data: { title, titleManual: title !== null },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Delete a user's conversation; its messages are removed by the
+ * onDelete: Cascade relation, and their vectors from the vector store
+ * Returns false if it doesn't exist or belongs to someone else
+ */
+export async function deleteConversation(
+  userId: string,
+  conversationId: string
+): Promise<boolean> {
+  // Vector IDs are message IDs
+  const messages = await prisma.message.findMany({
+    where: { conversationId, conversation: { userId } },
+    select: { id: true },
+  });
+  const result = await prisma.conversation.deleteMany({
+    where: { id: conversationId, userId },
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  // The conversation is gone either way; RAG skips vectors left behind
+  await deleteMessageEmbeddings(
+    userId,
+    messages.map((msg) => msg.id)
+  ).catch((error) => {
+    console.error("Failed to remove conversation vectors:", error);
+  });
+  return true;
+}
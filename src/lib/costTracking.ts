@@ -3,7 +3,7 @@ import { ApiService, ApiOperation, Prisma } from "@prisma/client";
 import {
   calculateChatCompletionCost,
   calculateEmbeddingCost,
-  calculatePineconeCost,
+  calculateVectorStoreCost,
 } from "@/lib/pricing";
 
 /**
@@ -12,25 +12,36 @@ import {
 export interface LogApiUsageOptions {
   userId?: string;
   conversationId?: string;
+  /** Provider billed for chat/embedding calls (defaults to OPENAI) */
+  service?: ApiService;
+  /** Served from a cache: logged at zero cost to show the savings */
+  cacheHit?: boolean;
   metadata?: Record<string, unknown>;
 }
 
 /**
- * Log OpenAI chat completion usage
+ * Log chat completion usage
+ * Returns the logged cost (0 if logging failed)
  */
 export async function logChatCompletion(
   model: string,
   inputTokens: number,
   outputTokens: number,
   options: LogApiUsageOptions = {}
-): Promise<void> {
+): Promise<number> {
   try {
-    const cost = calculateChatCompletionCost(model, inputTokens, outputTokens);
+    const service = options.service ?? ApiService.OPENAI;
+    const cost = calculateChatCompletionCost(
+      model,
+      inputTokens,
+      outputTokens,
+      service
+    );
     const totalTokens = inputTokens + outputTokens;
 
     await prisma.apiUsage.create({
       data: {
-        service: ApiService.OPENAI,
+        service,
         operation: ApiOperation.CHAT_COMPLETION,
         model,
         inputTokens,
@@ -44,31 +55,39 @@ export async function logChatCompletion(
         }),
       },
     });
+
+    return cost;
   } catch (error) {
     // Log error but don't throw - cost tracking should not break the main flow
     console.error("❌ Failed to log chat completion usage:", error);
+    return 0;
   }
 }
 
 /**
- * Log OpenAI embedding usage
+ * Log embedding usage
+ * Returns the logged cost (0 if logging failed)
  */
 export async function logEmbedding(
   model: string,
   tokens: number,
   options: LogApiUsageOptions = {}
-): Promise<void> {
+): Promise<number> {
   try {
-    const cost = calculateEmbeddingCost(model, tokens);
+    const service = options.service ?? ApiService.OPENAI;
+    const cost = options.cacheHit
+      ? 0
+      : calculateEmbeddingCost(model, tokens, service);
 
     await prisma.apiUsage.create({
       data: {
-        service: ApiService.OPENAI,
+        service,
         operation: ApiOperation.EMBEDDING,
         model,
         inputTokens: tokens, // Embeddings only have input tokens
         totalTokens: tokens,
         estimatedCost: cost,
+        cacheHit: options.cacheHit ?? false,
         userId: options.userId ?? null,
         conversationId: options.conversationId ?? null,
         ...(options.metadata && {
@@ -76,24 +95,29 @@ export async function logEmbedding(
         }),
       },
     });
+
+    return cost;
   } catch (error) {
     // Log error but don't throw - cost tracking should not break the main flow
     console.error("Failed to log embedding usage:", error);
+    return 0;
   }
 }
 
 /**
- * Log Pinecone query operation
+ * Log a vector store query operation
+ * Returns the logged cost (0 if logging failed)
  */
-export async function logPineconeQuery(
+export async function logVectorStoreQuery(
+  service: ApiService,
   options: LogApiUsageOptions = {}
-): Promise<void> {
+): Promise<number> {
   try {
-    const cost = calculatePineconeCost("query");
+    const cost = calculateVectorStoreCost(service, "query");
 
     await prisma.apiUsage.create({
       data: {
-        service: ApiService.PINECONE,
+        service,
         operation: ApiOperation.QUERY,
         estimatedCost: cost,
         userId: options.userId ?? null,
@@ -103,24 +127,29 @@ export async function logPineconeQuery(
         }),
       },
     });
+
+    return cost;
   } catch (error) {
     // Log error but don't throw - cost tracking should not break the main flow
-    console.error("Failed to log Pinecone query usage:", error);
+    console.error(`Failed to log ${service} query usage:`, error);
+    return 0;
   }
 }
 
 /**
- * Log Pinecone upsert operation
+ * Log a vector store upsert operation
+ * Returns the logged cost (0 if logging failed)
  */
-export async function logPineconeUpsert(
+export async function logVectorStoreUpsert(
+  service: ApiService,
   options: LogApiUsageOptions = {}
-): Promise<void> {
+): Promise<number> {
   try {
-    const cost = calculatePineconeCost("upsert");
+    const cost = calculateVectorStoreCost(service, "upsert");
 
     await prisma.apiUsage.create({
       data: {
-        service: ApiService.PINECONE,
+        service,
         operation: ApiOperation.UPSERT,
         estimatedCost: cost,
         userId: options.userId ?? null,
@@ -130,9 +159,12 @@ export async function logPineconeUpsert(
         }),
       },
     });
+
+    return cost;
   } catch (error) {
     // Log error but don't throw - cost tracking should not break the main flow
-    console.error("Failed to log Pinecone upsert usage:", error);
+    console.error(`Failed to log ${service} upsert usage:`, error);
+    return 0;
   }
 }
 
@@ -216,10 +248,20 @@ export async function getUserCostStats(userId: string): Promise<{
     byService: Record<string, number>;
     byOperation: Record<string, number>;
   };
+  /** What cache hits would have cost */
+  savings: {
+    embeddingCache: number;
+  };
 }> {
   try {
-    const [daily, monthly, total, serviceBreakdown, operationBreakdown] =
-      await Promise.all([
+    const [
+      daily,
+      monthly,
+      total,
+      serviceBreakdown,
+      operationBreakdown,
+      cacheHits,
+    ] = await Promise.all([
         getUserDailyCost(userId),
         getUserMonthlyCost(userId),
         getUserCost(userId),
@@ -233,6 +275,11 @@ export async function getUserCostStats(userId: string): Promise<{
           where: { userId },
           _sum: { estimatedCost: true },
         }),
+        prisma.apiUsage.groupBy({
+          by: ["model", "service"],
+          where: { userId, operation: ApiOperation.EMBEDDING, cacheHit: true },
+          _sum: { totalTokens: true },
+        }),
       ]);
 
     const byService: Record<string, number> = {};
@@ -245,6 +292,17 @@ export async function getUserCostStats(userId: string): Promise<{
       byOperation[item.operation] = item._sum.estimatedCost ?? 0;
     });
 
+    const embeddingCache = cacheHits.reduce(
+      (sum, item) =>
+        sum +
+        calculateEmbeddingCost(
+          item.model ?? "",
+          item._sum.totalTokens ?? 0,
+          item.service
+        ),
+      0
+    );
+
     return {
       daily,
       monthly,
@@ -253,6 +311,9 @@ export async function getUserCostStats(userId: string): Promise<{
         byService,
         byOperation,
       },
+      savings: {
+        embeddingCache,
+      },
     };
   } catch (error) {
     console.error("Failed to get user cost stats:", error);
@@ -264,6 +325,60 @@ export async function getUserCostStats(userId: string): Promise<{
         byService: {},
         byOperation: {},
       },
+      savings: {
+        embeddingCache: 0,
+      },
     };
   }
 }
+
+/**
+ * Usage already logged by a background job, for retries of it
+ * Returns the steps logged (from the rows' metadata) and their total cost
+ */
+export async function getJobUsage(
+  userId: string,
+  jobId: string
+): Promise<{ steps: Set<string>; cost: number }> {
+  const rows = await prisma.apiUsage.findMany({
+    where: { userId, metadata: { path: ["jobId"], equals: jobId } },
+    select: { estimatedCost: true, metadata: true },
+  });
+
+  const steps = new Set<string>();
+  let cost = 0;
+  for (const row of rows) {
+    const metadata = row.metadata as { step?: unknown } | null;
+    if (typeof metadata?.step === "string") {
+      steps.add(metadata.step);
+    }
+    cost += row.estimatedCost;
+  }
+  return { steps, cost };
+}
+
+/**
+ * Cost of each stored reply in a conversation, keyed by message ID
+ * Only the completion that wrote a reply carries its messageId, so tool
+ * rounds, retrieval and summaries aren't included
+ */
+export async function getReplyCosts(
+  conversationId: string
+): Promise<Map<string, number>> {
+  const rows = await prisma.apiUsage.findMany({
+    where: { conversationId, operation: ApiOperation.CHAT_COMPLETION },
+    select: { estimatedCost: true, metadata: true },
+  });
+
+  const costs = new Map<string, number>();
+  for (const row of rows) {
+    const metadata = row.metadata as { messageId?: unknown } | null;
+    if (typeof metadata?.messageId === "string") {
+      costs.set(
+        metadata.messageId,
+        (costs.get(metadata.messageId) ?? 0) + row.estimatedCost
+      );
+    }
+  }
+  return costs;
+}
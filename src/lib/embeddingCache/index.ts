@@ -0,0 +1,237 @@
+import { createHash } from "crypto";
+import {
+  CompletionAttempt,
+  embedTexts,
+  getEmbeddingModel,
+} from "@/lib/chatProviders";
+import { LogApiUsageOptions, logEmbedding } from "@/lib/costTracking";
+import { countTokens } from "@/lib/tokenEstimator";
+import { LruEmbeddingCache } from "./memoryCache";
+import { PostgresEmbeddingCache } from "./postgresCache";
+import { EmbeddingCache, EmbeddingCacheEntry } from "./types";
+
+export type { EmbeddingCache } from "./types";
+
+/**
+ * Cache layers, selected with the EMBEDDING_CACHE env var
+ * memory keeps an LRU per process; postgres adds the shared embedding_cache
+ * table behind it
+ */
+export type EmbeddingCacheBackend = "memory" | "postgres" | "off";
+
+const EMBEDDING_CACHE_BACKENDS: EmbeddingCacheBackend[] = [
+  "memory",
+  "postgres",
+  "off",
+];
+
+// Entries kept in memory; about 12 KB each at 1536 dimensions
+const MEMORY_CACHE_SIZE = 1000;
+
+// Most inputs the embeddings API accepts in one call
+const MAX_BATCH_SIZE = 2048;
+
+// Resolved once per process; fastest layer first
+let caches: EmbeddingCache[] | undefined;
+
+/**
+ * Resolve the configured cache backend (default memory)
+ */
+export const getEmbeddingCacheBackend = (): EmbeddingCacheBackend => {
+  const configured = process.env.EMBEDDING_CACHE?.toLowerCase();
+  if (!configured) {
+    return "memory";
+  }
+
+  if (!EMBEDDING_CACHE_BACKENDS.includes(configured as EmbeddingCacheBackend)) {
+    throw new Error(
+      `Invalid EMBEDDING_CACHE "${configured}". Expected one of: ${EMBEDDING_CACHE_BACKENDS.join(
+        ", "
+      )}`
+    );
+  }
+  return configured as EmbeddingCacheBackend;
+};
+
+const getEmbeddingCaches = (): EmbeddingCache[] => {
+  if (caches) {
+    return caches;
+  }
+
+  const backend = getEmbeddingCacheBackend();
+  caches =
+    backend === "off"
+      ? []
+      : [
+          new LruEmbeddingCache(MEMORY_CACHE_SIZE),
+          ...(backend === "postgres" ? [new PostgresEmbeddingCache()] : []),
+        ];
+  return caches;
+};
+
+/**
+ * Override the cache layers (tests use this to start from an empty cache)
+ */
+export const setEmbeddingCaches = (layers: EmbeddingCache[]): void => {
+  caches = layers;
+};
+
+/**
+ * Cache key for a text embedded with a model
+ */
+export const getEmbeddingCacheKey = (model: string, text: string): string =>
+  createHash("sha256").update(model).update("\0").update(text).digest("hex");
+
+const writeToLayers = async (
+  layers: EmbeddingCache[],
+  entries: EmbeddingCacheEntry[]
+): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+  await Promise.all(
+    layers.map((layer) =>
+      layer.setMany(entries).catch((error) => {
+        console.error("Failed to write embedding cache:", error);
+      })
+    )
+  );
+};
+
+/**
+ * Embeddings for a batch of texts, with which ones the cache served
+ */
+export interface CachedEmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  /** Tokens billed for the texts that weren't cached */
+  usage?: { totalTokens: number };
+  /** Per input: true when it cost nothing (cached or repeated in the batch) */
+  cached: boolean[];
+  attempts?: CompletionAttempt[];
+}
+
+/**
+ * Embed texts with the configured embedding model, paying only for texts
+ * no cache layer has seen
+ * Layers are checked fastest first and hits are copied into the faster
+ * layers. Cache failures are logged and treated as misses.
+ */
+export async function embedWithCache(
+  texts: string[]
+): Promise<CachedEmbeddingResult> {
+  const model = getEmbeddingModel();
+  const layers = getEmbeddingCaches();
+  const keys = texts.map((text) => getEmbeddingCacheKey(model, text));
+  const found = new Map<string, number[]>();
+
+  for (let i = 0; i < layers.length; i++) {
+    const missing = Array.from(
+      new Set(keys.filter((key) => !found.has(key)))
+    );
+    if (missing.length === 0) {
+      break;
+    }
+
+    let hits: Map<string, number[]>;
+    try {
+      hits = await layers[i].getMany(missing);
+    } catch (error) {
+      console.error("Embedding cache lookup failed:", error);
+      continue;
+    }
+    hits.forEach((embedding, key) => found.set(key, embedding));
+
+    // Copy hits into the faster layers
+    const entries = Array.from(hits, ([key, embedding]) => ({
+      key,
+      model,
+      embedding,
+    }));
+    await writeToLayers(layers.slice(0, i), entries);
+  }
+
+  const cached = keys.map((key) => found.has(key));
+
+  // Each distinct uncached text is embedded once
+  const pending = new Map<string, string>();
+  keys.forEach((key, i) => {
+    if (!found.has(key)) {
+      pending.set(key, texts[i]);
+    }
+  });
+
+  const pendingEntries = Array.from(pending);
+  const newEntries: EmbeddingCacheEntry[] = [];
+  let totalTokens = 0;
+  let attempts: CompletionAttempt[] | undefined;
+
+  for (let start = 0; start < pendingEntries.length; start += MAX_BATCH_SIZE) {
+    const batch = pendingEntries.slice(start, start + MAX_BATCH_SIZE);
+    const result = await embedTexts(batch.map(([, text]) => text));
+
+    batch.forEach(([key], i) => {
+      const embedding = result.embeddings[i];
+      found.set(key, embedding);
+      newEntries.push({ key, model, embedding });
+    });
+    totalTokens += result.usage?.totalTokens ?? 0;
+    if (result.attempts) {
+      attempts = [...(attempts ?? []), ...result.attempts];
+    }
+  }
+
+  await writeToLayers(layers, newEntries);
+
+  // Repeats of a text within the batch were free too
+  const seen = new Set<string>();
+  const free = keys.map((key, i) => {
+    const repeated = seen.has(key);
+    seen.add(key);
+    return cached[i] || repeated;
+  });
+
+  return {
+    embeddings: keys.map((key) => found.get(key)!),
+    model,
+    usage: pendingEntries.length > 0 ? { totalTokens } : undefined,
+    cached: free,
+    ...(attempts && { attempts }),
+  };
+}
+
+/**
+ * Log an embedding batch: billed tokens at their cost, plus one zero-cost
+ * row with the tokens the cache saved
+ * Returns the cost logged
+ */
+export async function logCachedEmbedding(
+  texts: string[],
+  result: CachedEmbeddingResult,
+  options: LogApiUsageOptions
+): Promise<number> {
+  let cost = 0;
+
+  if (result.usage?.totalTokens) {
+    cost += await logEmbedding(result.model, result.usage.totalTokens, {
+      ...options,
+      ...(result.attempts && {
+        metadata: { ...options.metadata, attempts: result.attempts },
+      }),
+    });
+  }
+
+  const savedTokens = texts.reduce(
+    (total, text, i) =>
+      result.cached[i] ? total + countTokens(text, result.model) : total,
+    0
+  );
+  if (savedTokens > 0) {
+    await logEmbedding(result.model, savedTokens, {
+      ...options,
+      cacheHit: true,
+    });
+  }
+
+  return cost;
+}
@@ -0,0 +1,35 @@
+import { EmbeddingCache, EmbeddingCacheEntry } from "./types";
+
+/**
+ * Least-recently-used cache in process memory
+ * A Map keeps insertion order, so re-inserting on access moves an entry to
+ * the back and the first key is always the least recently used
+ */
+export class LruEmbeddingCache implements EmbeddingCache {
+  private readonly entries = new Map<string, number[]>();
+
+  constructor(private readonly capacity: number) {}
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    for (const key of keys) {
+      const embedding = this.entries.get(key);
+      if (embedding) {
+        this.entries.delete(key);
+        this.entries.set(key, embedding);
+        found.set(key, embedding);
+      }
+    }
+    return found;
+  }
+
+  async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    for (const { key, embedding } of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { prisma } from "@/lib/prisma";
+import { EmbeddingCache, EmbeddingCacheEntry } from "./types";
+
+/**
+ * Cache in the embedding_cache table, shared by every server instance
+ */
+export class PostgresEmbeddingCache implements EmbeddingCache {
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    const rows = await prisma.embeddingCacheEntry.findMany({
+      where: { key: { in: keys } },
+      select: { key: true, embedding: true },
+    });
+    return new Map(rows.map((row) => [row.key, row.embedding]));
+  }
+
+  async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    // Another request may have cached the same text in the meantime
+    await prisma.embeddingCacheEntry.createMany({
+      data: entries,
+      skipDuplicates: true,
+    });
+  }
+}
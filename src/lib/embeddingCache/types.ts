@@ -0,0 +1,17 @@
+/**
+ * A cached embedding, keyed by a hash of its model and text
+ */
+export interface EmbeddingCacheEntry {
+  key: string;
+  model: string;
+  embedding: number[];
+}
+
+/**
+ * Storage for embeddings that have already been paid for
+ */
+export interface EmbeddingCache {
+  /** Embeddings found for the given keys; missing keys are left out */
+  getMany(keys: string[]): Promise<Map<string, number[]>>;
+  setMany(entries: EmbeddingCacheEntry[]): Promise<void>;
+}
@@ -0,0 +1,16 @@
+import { ExportedConversation, ExportedMessage } from "@/types";
+
+/**
+ * Messages of the active branch, oldest first
+ */
+export const getActiveMessages = (
+  conversation: ExportedConversation
+): ExportedMessage[] => {
+  const byId = new Map(conversation.messages.map((msg) => [msg.id, msg]));
+  return conversation.activeBranch
+    .map((id) => byId.get(id))
+    .filter((msg): msg is ExportedMessage => msg !== undefined);
+};
+
+export const getExportTitle = (conversation: ExportedConversation): string =>
+  conversation.title || "Untitled conversation";
@@ -0,0 +1,110 @@
+import { ExportedConversation } from "@/types";
+import { getActiveMessages, getExportTitle } from "./branch";
+
+// Inlined so the file opens anywhere, offline
+const STYLES = `
+body { margin: 0; background: #111827; color: #f3f4f6; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+h1 { font-size: 1.5rem; margin: 0 0 0.5rem; }
+.meta, .overview { color: #9ca3af; font-size: 0.875rem; }
+.message { border-radius: 0.5rem; padding: 0.5rem 1rem; margin: 1rem 0; }
+.user { background: #2563eb; margin-left: 20%; }
+.assistant { background: #374151; margin-right: 20%; }
+.role { font-size: 0.875rem; font-weight: 600; margin-bottom: 0.25rem; }
+.role span { font-weight: 400; opacity: 0.7; }
+.text { white-space: pre-wrap; }
+pre { background: #0b0f19; border-radius: 0.375rem; padding: 0.75rem; overflow-x: auto; }
+code { font-family: ui-monospace, monospace; font-size: 0.85rem; }
+`;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Message content as HTML: fenced code blocks become <pre>, everything
+ * else is kept as escaped text
+ */
+const renderContent = (content: string): string => {
+  const blocks: string[] = [];
+  let text: string[] = [];
+  let code: string[] | null = null;
+  let language = "";
+
+  const flushText = () => {
+    const joined = text.join("\n").trim();
+    if (joined) {
+      blocks.push(`<div class="text">${escapeHtml(joined)}</div>`);
+    }
+    text = [];
+  };
+
+  for (const line of content.split("\n")) {
+    const fence = line.match(/^\s*```\s*([\w+-]*)/);
+    if (code === null && fence) {
+      flushText();
+      code = [];
+      language = fence[1];
+    } else if (code !== null && fence) {
+      const languageClass = language
+        ? ` class="language-${escapeHtml(language)}"`
+        : "";
+      blocks.push(
+        `<pre><code${languageClass}>${escapeHtml(code.join("\n"))}</code></pre>`
+      );
+      code = null;
+    } else if (code !== null) {
+      code.push(line);
+    } else {
+      text.push(line);
+    }
+  }
+
+  // An unclosed fence runs to the end of the message
+  if (code !== null) {
+    blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+  }
+  flushText();
+  return blocks.join("\n");
+};
+
+/**
+ * Render the active branch as a standalone HTML page
+ */
+export function toHtml(conversation: ExportedConversation): string {
+  const title = escapeHtml(getExportTitle(conversation));
+  const messages = getActiveMessages(conversation).map((message) => {
+    const role = message.role === "user" ? "You" : "Assistant";
+    const model = message.model
+      ? ` <span>${escapeHtml(message.model)}</span>`
+      : "";
+    return [
+      `<section class="message ${message.role}">`,
+      `<div class="role">${role}${model}</div>`,
+      renderContent(message.content),
+      `</section>`,
+    ].join("\n");
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="meta">Started ${escapeHtml(new Date(conversation.createdAt).toUTCString())}</p>
+${conversation.overview ? `<p class="overview">${escapeHtml(conversation.overview)}</p>\n` : ""}${messages.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,112 @@
+import {
+  getConversationExport,
+  listUserConversations,
+} from "@/lib/conversations";
+import {
+  ConversationExport,
+  ExportedConversation,
+  ExportFormat,
+} from "@/types";
+import { toHtml } from "./html";
+import { toMarkdown } from "./markdown";
+import { createZipStream, ZipEntry } from "./zip";
+
+export { getActiveMessages } from "./branch";
+
+/**
+ * Conversation exports
+ *
+ * Markdown and HTML show the active branch for reading; JSON carries the
+ * whole message tree with the model, templates and cost of each reply, in
+ * a versioned shape that can be imported again.
+ */
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "json", "html"];
+
+// Bump with any change to ConversationExport
+export const EXPORT_VERSION = 1;
+
+const FORMAT_DETAILS: Record<
+  ExportFormat,
+  { extension: string; contentType: string }
+> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+  html: { extension: "html", contentType: "text/html; charset=utf-8" },
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+export const getExportContentType = (format: ExportFormat): string =>
+  FORMAT_DETAILS[format].contentType;
+
+/**
+ * File name for an exported conversation: a slug of its title plus the
+ * start of its ID, so names in a bulk export never collide
+ */
+export const getExportFileName = (
+  conversation: ExportedConversation,
+  format: ExportFormat
+): string => {
+  const slug = (conversation.title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  const date = conversation.createdAt.slice(0, 10);
+  return `${date}-${slug || "conversation"}-${conversation.id.slice(-8)}.${
+    FORMAT_DETAILS[format].extension
+  }`;
+};
+
+/**
+ * Render a conversation in the given format
+ */
+export function renderExport(
+  conversation: ExportedConversation,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(conversation);
+    case "html":
+      return toHtml(conversation);
+    case "json": {
+      const document: ConversationExport = {
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversation,
+      };
+      return JSON.stringify(document, null, 2);
+    }
+  }
+}
+
+/**
+ * Render each of a user's conversations in turn, loading one at a time
+ */
+async function* exportEntries(
+  userId: string,
+  format: ExportFormat
+): AsyncGenerator<ZipEntry> {
+  for (const { id } of await listUserConversations(userId)) {
+    const conversation = await getConversationExport(userId, id);
+    // Deleted since the list was read
+    if (!conversation) continue;
+    yield {
+      name: getExportFileName(conversation, format),
+      content: renderExport(conversation, format),
+      modifiedAt: new Date(conversation.updatedAt),
+    };
+  }
+}
+
+/**
+ * Stream a zip with one file per conversation the user has
+ */
+export const streamConversationsZip = (
+  userId: string,
+  format: ExportFormat
+): ReadableStream<Uint8Array> =>
+  createZipStream(exportEntries(userId, format));
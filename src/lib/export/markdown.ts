@@ -0,0 +1,29 @@
+import { ExportedConversation } from "@/types";
+import { getActiveMessages, getExportTitle } from "./branch";
+
+/**
+ * Render the active branch as Markdown: a header per message, content
+ * verbatim so code fences survive
+ */
+export function toMarkdown(conversation: ExportedConversation): string {
+  const lines = [`# ${getExportTitle(conversation)}`, ""];
+  if (conversation.overview) {
+    lines.push(`> ${conversation.overview}`, "");
+  }
+  lines.push(
+    `_Started ${new Date(conversation.createdAt).toUTCString()}_`,
+    ""
+  );
+
+  for (const message of getActiveMessages(conversation)) {
+    const header = message.role === "user" ? "You" : "Assistant";
+    lines.push(
+      `## ${header}${message.model ? ` (${message.model})` : ""}`,
+      "",
+      message.content.trimEnd(),
+      ""
+    );
+  }
+
+  return lines.join("\n");
+}
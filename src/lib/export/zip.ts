@@ -0,0 +1,184 @@
+import { promisify } from "util";
+import { deflateRaw } from "zlib";
+
+/**
+ * Streaming zip writer
+ *
+ * Entries are pulled one at a time and deflated on their own, so only the
+ * current file and the central directory index are held in memory. Plain
+ * (non-zip64) archives: at most 65535 entries and 4 GiB.
+ */
+
+const deflate = promisify(deflateRaw);
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20; // 2.0: deflate
+const UTF8_NAMES_FLAG = 0x0800;
+const DEFLATE_METHOD = 8;
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+/**
+ * A file to add to the archive
+ */
+export interface ZipEntry {
+  name: string;
+  content: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * MS-DOS time and date fields, in local time as zip tools expect
+ */
+const toDosDateTime = (value: Date) => ({
+  time:
+    (value.getHours() << 11) |
+    (value.getMinutes() << 5) |
+    Math.floor(value.getSeconds() / 2),
+  date:
+    (Math.max(value.getFullYear() - 1980, 0) << 9) |
+    ((value.getMonth() + 1) << 5) |
+    value.getDate(),
+});
+
+const localHeader = (entry: CentralEntry): Buffer => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+  header.writeUInt16LE(DEFLATE_METHOD, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  header.writeUInt32LE(entry.crc, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(0, 28); // extra field length
+  return Buffer.concat([header, entry.name]);
+};
+
+const centralHeader = (entry: CentralEntry): Buffer => {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4); // made by
+  header.writeUInt16LE(ZIP_VERSION, 6); // needed to extract
+  header.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+  header.writeUInt16LE(DEFLATE_METHOD, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.size, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  // Extra field, comment, disk number, attributes: all empty
+  header.writeUInt32LE(entry.offset, 42);
+  return Buffer.concat([header, entry.name]);
+};
+
+const endOfCentralDirectory = (
+  entries: number,
+  size: number,
+  offset: number
+): Buffer => {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(entries, 8); // on this disk
+  record.writeUInt16LE(entries, 10); // in total
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+};
+
+/**
+ * Stream a zip archive of the given entries, producing each one only when
+ * the reader asks for more
+ */
+export function createZipStream(
+  entries: AsyncIterable<ZipEntry>
+): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]();
+  const written: CentralEntry[] = [];
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+
+        if (next.done) {
+          const directory = Buffer.concat(written.map(centralHeader));
+          controller.enqueue(directory);
+          controller.enqueue(
+            endOfCentralDirectory(written.length, directory.length, offset)
+          );
+          controller.close();
+          return;
+        }
+
+        if (written.length === MAX_ENTRIES) {
+          throw new Error(`Zip archives hold at most ${MAX_ENTRIES} files`);
+        }
+        const { name, content, modifiedAt = new Date() } = next.value;
+        const data =
+          typeof content === "string" ? Buffer.from(content, "utf8") : content;
+        const compressed = await deflate(data);
+
+        const entry: CentralEntry = {
+          name: Buffer.from(name, "utf8"),
+          crc: crc32(data),
+          compressedSize: compressed.length,
+          size: data.length,
+          ...toDosDateTime(modifiedAt),
+          offset,
+        };
+        const header = localHeader(entry);
+        if (offset + header.length + compressed.length > MAX_OFFSET) {
+          throw new Error("Zip archive is larger than 4 GiB");
+        }
+
+        controller.enqueue(header);
+        controller.enqueue(compressed);
+        offset += header.length + compressed.length;
+        written.push(entry);
+      } catch (error) {
+        controller.error(error);
+        await iterator.return?.();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
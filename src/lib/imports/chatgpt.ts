@@ -0,0 +1,169 @@
+import { ImportedConversation, ImportedMessage } from "./types";
+
+/**
+ * Parser for conversations.json from a ChatGPT data export
+ *
+ * Each conversation is a tree of nodes in `mapping`, with `current_node`
+ * the end of the branch last shown. System, tool and hidden nodes are
+ * dropped and their children re-attached to the nearest kept ancestor, so
+ * regenerations and edits stay as sibling versions.
+ */
+
+interface ChatGPTMessage {
+  author?: { role?: string };
+  create_time?: number | null;
+  content?: { content_type?: string; parts?: unknown[] };
+  metadata?: {
+    model_slug?: string;
+    is_visually_hidden_from_conversation?: boolean;
+  };
+  recipient?: string;
+}
+
+interface ChatGPTNode {
+  id?: string;
+  parent?: string | null;
+  children?: string[];
+  message?: ChatGPTMessage | null;
+}
+
+export interface ChatGPTConversation {
+  title?: string | null;
+  create_time?: number | null;
+  update_time?: number | null;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string | null;
+}
+
+// Content types carrying text; others (code, execution output, browsing)
+// belong to tool calls
+const TEXT_CONTENT_TYPES = ["text", "multimodal_text"];
+
+export const isChatGPTConversation = (
+  value: unknown
+): value is ChatGPTConversation =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ChatGPTConversation).mapping === "object" &&
+  (value as ChatGPTConversation).mapping !== null;
+
+/**
+ * ChatGPT times are Unix seconds with a fraction
+ */
+const toIsoTime = (seconds: number | null | undefined): string | null =>
+  typeof seconds === "number" && Number.isFinite(seconds)
+    ? new Date(seconds * 1000).toISOString()
+    : null;
+
+/**
+ * The visible text of a node, or null if it isn't a user or assistant
+ * message shown in the conversation
+ * Images and files in multimodal messages are skipped; only their text is
+ * kept.
+ */
+const getMessageText = (
+  message: ChatGPTMessage | null | undefined
+): { role: "user" | "assistant"; text: string } | null => {
+  const role = message?.author?.role;
+  if (role !== "user" && role !== "assistant") return null;
+  if (message?.metadata?.is_visually_hidden_from_conversation) return null;
+  if (message?.recipient && message.recipient !== "all") return null;
+  if (!TEXT_CONTENT_TYPES.includes(message?.content?.content_type ?? "")) {
+    return null;
+  }
+
+  const text = (message?.content?.parts ?? [])
+    .filter((part): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+  return text ? { role, text } : null;
+};
+
+/**
+ * Convert one ChatGPT conversation; its messages may be empty
+ */
+export function parseChatGPTConversation(
+  conversation: ChatGPTConversation
+): ImportedConversation {
+  const { mapping } = conversation;
+  const createdAt =
+    toIsoTime(conversation.create_time) ?? new Date().toISOString();
+  const updatedAt = toIsoTime(conversation.update_time) ?? createdAt;
+
+  // Nodes on the branch last shown are the selected versions
+  const activePath = new Set<string>();
+  for (
+    let id = conversation.current_node ?? null;
+    id && mapping[id] && !activePath.has(id);
+    id = mapping[id].parent ?? null
+  ) {
+    activePath.add(id);
+  }
+
+  const messages: ImportedMessage[] = [];
+  const byKey = new Map<string, ImportedMessage>();
+  // Messages kept under each kept message; a same-role message is only
+  // merged into a parent with none
+  const keptChildren = new Map<string | null, number>();
+
+  const roots = Object.keys(mapping).filter((id) => {
+    const parent = mapping[id].parent;
+    return !parent || !mapping[parent];
+  });
+
+  // Depth-first, so parents always come before their children
+  const stack = roots
+    .reverse()
+    .map((id) => ({ id, parentKey: null as string | null, time: createdAt }));
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const { id, parentKey, time } = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+
+    const node = mapping[id];
+    const visible = getMessageText(node.message);
+    const timestamp = toIsoTime(node.message?.create_time) ?? time;
+    let key = parentKey;
+
+    if (visible) {
+      const parent = parentKey ? byKey.get(parentKey) : undefined;
+      const siblings = keptChildren.get(parentKey) ?? 0;
+
+      if (parent && parent.role === visible.role && siblings === 0) {
+        // A reply split around tool calls reads as one message
+        parent.content = `${parent.content}\n\n${visible.text}`;
+      } else {
+        keptChildren.set(parentKey, siblings + 1);
+        const message: ImportedMessage = {
+          key: id,
+          parentKey,
+          selected: activePath.has(id),
+          role: visible.role,
+          content: visible.text,
+          timestamp,
+          ...(visible.role === "assistant" &&
+            node.message?.metadata?.model_slug && {
+              model: node.message.metadata.model_slug,
+            }),
+        };
+        messages.push(message);
+        byKey.set(id, message);
+        key = id;
+      }
+    }
+
+    const children = (node.children ?? []).filter((child) => mapping[child]);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], parentKey: key, time: timestamp });
+    }
+  }
+
+  return {
+    title: conversation.title?.trim() || null,
+    createdAt,
+    updatedAt,
+    messages,
+  };
+}
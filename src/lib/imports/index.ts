@@ -0,0 +1,201 @@
+import { ConversationImport, ImportSource, JobStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { enqueueJob } from "@/lib/jobs";
+import { CreateImportRequest, ImportSummary } from "@/types";
+import { isChatGPTConversation, parseChatGPTConversation } from "./chatgpt";
+import { isExportDocument, parseExportDocument } from "./jsonExport";
+import {
+  ImportedConversation,
+  ImportFormatError,
+  ImportInProgressError,
+} from "./types";
+
+/**
+ * Conversation imports
+ *
+ * An uploaded file is parsed up front, so format errors are reported
+ * straight away, and saved as one item per conversation. The
+ * "import-conversations" job then stores them in batches (see runner.ts).
+ */
+
+export { runImportBatch } from "./runner";
+export { ImportFormatError, ImportInProgressError } from "./types";
+
+// Largest upload accepted, in bytes
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+// Most conversations accepted from one file
+export const MAX_IMPORT_CONVERSATIONS = 5000;
+// Items written per createMany
+const ITEM_INSERT_CHUNK = 100;
+
+/**
+ * Detect the format of an uploaded file and parse its conversations
+ * Accepts ChatGPT's conversations.json, or one or more of our JSON exports
+ * (a single document or an array). Conversations without messages are
+ * left out.
+ */
+export function parseImportFile(data: unknown): {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+} {
+  const entries = Array.isArray(data) ? data : [data];
+  if (entries.length === 0) {
+    throw new ImportFormatError("The file contains no conversations");
+  }
+
+  let source: ImportSource;
+  let conversations: ImportedConversation[];
+  if (entries.every(isChatGPTConversation)) {
+    source = ImportSource.CHATGPT;
+    conversations = entries.map(parseChatGPTConversation);
+  } else if (entries.every(isExportDocument)) {
+    source = ImportSource.EXPORT;
+    conversations = entries.map(parseExportDocument);
+  } else {
+    throw new ImportFormatError(
+      "Unrecognised file: expected ChatGPT's conversations.json or a JSON export from this app"
+    );
+  }
+
+  conversations = conversations.filter(
+    (conversation) => conversation.messages.length > 0
+  );
+  if (conversations.length === 0) {
+    throw new ImportFormatError("The file contains no messages to import");
+  }
+  if (conversations.length > MAX_IMPORT_CONVERSATIONS) {
+    throw new ImportFormatError(
+      `The file contains ${conversations.length} conversations; split it into files of at most ${MAX_IMPORT_CONVERSATIONS}`
+    );
+  }
+  return { source, conversations };
+}
+
+/**
+ * Queue the next batch of an import
+ */
+export const queueImportBatch = (importId: string) =>
+  enqueueJob("import-conversations", { importId });
+
+/**
+ * Parse an uploaded file and start importing it
+ * Items are written in chunks rather than one long transaction; if a chunk
+ * fails the import is deleted with its items. Throws ImportFormatError when
+ * the file can't be imported
+ */
+export async function createImport(
+  userId: string,
+  { data, fileName, backfillEmbeddings = false }: CreateImportRequest
+): Promise<ConversationImport> {
+  const { source, conversations } = parseImportFile(data);
+
+  const importJob = await prisma.conversationImport.create({
+    data: {
+      userId,
+      source,
+      fileName: fileName?.slice(0, 255) || null,
+      backfillEmbeddings,
+      totalConversations: conversations.length,
+    },
+  });
+
+  try {
+    for (
+      let start = 0;
+      start < conversations.length;
+      start += ITEM_INSERT_CHUNK
+    ) {
+      await prisma.conversationImportItem.createMany({
+        data: conversations
+          .slice(start, start + ITEM_INSERT_CHUNK)
+          .map((conversation, i) => ({
+            importId: importJob.id,
+            position: start + i,
+            data: conversation,
+          })),
+      });
+    }
+  } catch (error) {
+    await prisma.conversationImport
+      .delete({ where: { id: importJob.id } })
+      .catch((deleteError) => {
+        console.error("Failed to remove partial import:", deleteError);
+      });
+    throw error;
+  }
+
+  await queueImportBatch(importJob.id);
+  return importJob;
+}
+
+/**
+ * A user's imports, newest first
+ */
+export const listUserImports = (userId: string, limit = 50) =>
+  prisma.conversationImport.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+/**
+ * One of a user's imports, or null if it doesn't exist or isn't theirs
+ */
+export const getUserImport = (userId: string, importId: string) =>
+  prisma.conversationImport.findFirst({ where: { id: importId, userId } });
+
+/**
+ * Queue another batch of an unfinished import, e.g. after its job ran out
+ * of attempts
+ * Returns null when there's no unfinished import of the user's with that ID,
+ * and throws ImportInProgressError while one of its batches is still queued
+ * or running. Batches that overlap anyway (two resumes at once) claim each
+ * item before storing or embedding it, so nothing is written or billed
+ * twice.
+ */
+export async function resumeImport(
+  userId: string,
+  importId: string
+): Promise<ConversationImport | null> {
+  const importJob = await getUserImport(userId, importId);
+  if (!importJob || importJob.completedAt) {
+    return null;
+  }
+
+  const activeBatch = await prisma.job.findFirst({
+    where: {
+      type: "import-conversations",
+      status: { in: [JobStatus.PENDING, JobStatus.RUNNING] },
+      payload: { path: ["importId"], equals: importJob.id },
+    },
+    select: { id: true },
+  });
+  if (activeBatch) {
+    throw new ImportInProgressError();
+  }
+
+  await queueImportBatch(importJob.id);
+  return importJob;
+}
+
+/**
+ * An import's progress as returned by the API
+ */
+export const toImportSummary = (
+  importJob: ConversationImport
+): ImportSummary => ({
+  id: importJob.id,
+  source: importJob.source,
+  fileName: importJob.fileName,
+  status: importJob.status,
+  backfillEmbeddings: importJob.backfillEmbeddings,
+  totalConversations: importJob.totalConversations,
+  importedConversations: importJob.importedConversations,
+  importedMessages: importJob.importedMessages,
+  embeddedMessages: importJob.embeddedMessages,
+  embeddingCost: importJob.embeddingCost,
+  embeddingError: importJob.embeddingError,
+  lastError: importJob.lastError,
+  createdAt: importJob.createdAt.toISOString(),
+  completedAt: importJob.completedAt?.toISOString() ?? null,
+});
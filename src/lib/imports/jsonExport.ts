@@ -0,0 +1,107 @@
+import { ExportedMessage } from "@/types";
+import {
+  ImportedConversation,
+  ImportedMessage,
+  ImportFormatError,
+} from "./types";
+
+/**
+ * Parser for our own JSON export (see lib/export), one document per
+ * conversation
+ */
+
+// Versions of ConversationExport this parser reads
+const SUPPORTED_VERSIONS = [1];
+
+export const isExportDocument = (value: unknown): boolean =>
+  typeof value === "object" &&
+  value !== null &&
+  "version" in value &&
+  "conversation" in value;
+
+const isValidTime = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isExportedMessage = (value: unknown): value is ExportedMessage => {
+  const message = value as ExportedMessage;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof message.id === "string" &&
+    (message.parentId === null || typeof message.parentId === "string") &&
+    (message.role === "user" || message.role === "assistant") &&
+    typeof message.content === "string" &&
+    isValidTime(message.timestamp)
+  );
+};
+
+/**
+ * Convert one export document
+ * Messages whose parent isn't in the file are dropped with their replies.
+ */
+export function parseExportDocument(document: unknown): ImportedConversation {
+  const { version, conversation } = document as {
+    version: unknown;
+    conversation: Record<string, unknown> | null;
+  };
+  if (!SUPPORTED_VERSIONS.includes(version as number)) {
+    throw new ImportFormatError(`Unsupported export version: ${version}`);
+  }
+  if (
+    typeof conversation !== "object" ||
+    conversation === null ||
+    !Array.isArray(conversation.messages)
+  ) {
+    throw new ImportFormatError("Export is missing its conversation");
+  }
+
+  const valid = (conversation.messages as unknown[]).filter(isExportedMessage);
+  if (valid.length !== conversation.messages.length) {
+    throw new ImportFormatError("Export contains malformed messages");
+  }
+
+  const children = new Map<string | null, ExportedMessage[]>();
+  for (const message of valid) {
+    const siblings = children.get(message.parentId) ?? [];
+    siblings.push(message);
+    children.set(message.parentId, siblings);
+  }
+
+  // Depth-first from the first messages, so parents come first
+  const messages: ImportedMessage[] = [];
+  const stack = [...(children.get(null) ?? [])].reverse();
+  const visited = new Set<string>();
+  while (stack.length > 0) {
+    const message = stack.pop()!;
+    if (visited.has(message.id)) continue;
+    visited.add(message.id);
+
+    messages.push({
+      key: message.id,
+      parentKey: message.parentId,
+      selected: message.selected !== false,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      ...(typeof message.model === "string" && { model: message.model }),
+      ...(Array.isArray(message.templates) && {
+        templates: message.templates,
+      }),
+    });
+    stack.push(...[...(children.get(message.id) ?? [])].reverse());
+  }
+
+  const createdAt = isValidTime(conversation.createdAt)
+    ? conversation.createdAt
+    : messages[0]?.timestamp ?? new Date().toISOString();
+  return {
+    title: typeof conversation.title === "string" ? conversation.title : null,
+    overview:
+      typeof conversation.overview === "string" ? conversation.overview : null,
+    createdAt,
+    updatedAt: isValidTime(conversation.updatedAt)
+      ? conversation.updatedAt
+      : createdAt,
+    messages,
+  };
+}
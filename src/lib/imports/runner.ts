@@ -0,0 +1,381 @@
+import { ConversationImport, ImportStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getEmbeddingModel, getEmbeddingProvider } from "@/lib/chatProviders";
+import { logVectorStoreUpsert } from "@/lib/costTracking";
+import { embedWithCache, logCachedEmbedding } from "@/lib/embeddingCache";
+import { checkUserLimits, updateUserCostLimits } from "@/lib/limitChecker";
+import { calculateEmbeddingCost } from "@/lib/pricing";
+import { countTokens } from "@/lib/tokenEstimator";
+import { getVectorStore, storeMessageEmbeddings } from "@/lib/vectorStore";
+import { ImportedConversation, ImportedMessage } from "./types";
+
+/**
+ * Import batches
+ *
+ * Each batch stores a few conversations, then embeds a few stored ones if
+ * the import asked for it; the job is queued again while work remains.
+ * Progress lives on the items, so a failed or interrupted batch picks up
+ * where it stopped.
+ */
+
+// Conversations stored per batch
+const STORE_BATCH_SIZE = 20;
+// Conversations embedded per batch
+const EMBED_BATCH_SIZE = 10;
+// Texts per embedding call
+const EMBED_CHUNK_SIZE = 100;
+// Longer messages are cut to this many characters before embedding
+const MAX_EMBEDDED_LENGTH = 20_000;
+// Writing a long conversation message by message can outlast Prisma's
+// default 5s interactive transaction timeout
+const STORE_TRANSACTION_TIMEOUT_MS = 60_000;
+// An embedding claim older than this belongs to a batch that died, as with
+// the job queue's lock timeout
+const EMBED_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Thrown inside the store transaction to roll it back
+class AlreadyStoredError extends Error {}
+
+const isImportedMessage = (value: unknown): value is ImportedMessage => {
+  const message = value as ImportedMessage;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    typeof message.key === "string" &&
+    (message.parentKey === null || typeof message.parentKey === "string") &&
+    typeof message.selected === "boolean" &&
+    (message.role === "user" || message.role === "assistant") &&
+    typeof message.content === "string" &&
+    typeof message.timestamp === "string" &&
+    (message.model === undefined || typeof message.model === "string") &&
+    (message.templates === undefined || Array.isArray(message.templates))
+  );
+};
+
+/**
+ * Check an item's stored data is a parsed conversation, since it's read
+ * back from a JSON column
+ */
+const isImportedConversation = (
+  value: unknown
+): value is ImportedConversation => {
+  const conversation = value as ImportedConversation;
+  return (
+    typeof conversation === "object" &&
+    conversation !== null &&
+    (conversation.title === null || typeof conversation.title === "string") &&
+    (conversation.overview == null ||
+      typeof conversation.overview === "string") &&
+    typeof conversation.createdAt === "string" &&
+    typeof conversation.updatedAt === "string" &&
+    Array.isArray(conversation.messages) &&
+    conversation.messages.every(isImportedMessage)
+  );
+};
+
+/**
+ * Write one parsed conversation and mark its item stored, all or nothing
+ * Returns the number of messages written, or 0 if another batch got there
+ * first
+ */
+async function storeItem(
+  userId: string,
+  importId: string,
+  item: { id: string; data: Prisma.JsonValue }
+): Promise<number> {
+  const parsed = item.data;
+  if (!isImportedConversation(parsed)) {
+    throw new Error(`Import item ${item.id} holds malformed data`);
+  }
+
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const conversation = await tx.conversation.create({
+          data: {
+            userId,
+            title: parsed.title,
+            titleManual: Boolean(parsed.title),
+            overview: parsed.overview ?? null,
+            createdAt: new Date(parsed.createdAt),
+            updatedAt: new Date(parsed.updatedAt),
+          },
+        });
+
+        const ids = new Map<string, string>();
+        for (const message of parsed.messages) {
+          const timestamp = new Date(message.timestamp);
+          const created = await tx.message.create({
+            data: {
+              conversationId: conversation.id,
+              parentId: message.parentKey
+                ? ids.get(message.parentKey) ?? null
+                : null,
+              selected: message.selected,
+              role: message.role,
+              content: message.content,
+              model: message.model,
+              ...(message.templates?.length && {
+                templates: message.templates,
+              }),
+              // Siblings are ordered by createdAt, so it follows the source
+              timestamp,
+              createdAt: timestamp,
+            },
+          });
+          ids.set(message.key, created.id);
+        }
+
+        // Claimed last, so a batch racing this one rolls back instead of
+        // storing the conversation twice
+        const { count } = await tx.conversationImportItem.updateMany({
+          where: { id: item.id, conversationId: null },
+          data: { conversationId: conversation.id },
+        });
+        if (count === 0) {
+          throw new AlreadyStoredError();
+        }
+
+        await tx.conversationImport.update({
+          where: { id: importId },
+          data: {
+            importedConversations: { increment: 1 },
+            importedMessages: { increment: parsed.messages.length },
+          },
+        });
+        return parsed.messages.length;
+      },
+      { timeout: STORE_TRANSACTION_TIMEOUT_MS }
+    );
+  } catch (error) {
+    if (error instanceof AlreadyStoredError) {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store the next conversations of an import
+ * Returns whether any are left
+ */
+async function storeNextItems(importJob: ConversationImport): Promise<boolean> {
+  const items = await prisma.conversationImportItem.findMany({
+    where: { importId: importJob.id, conversationId: null },
+    orderBy: { position: "asc" },
+    take: STORE_BATCH_SIZE + 1,
+    select: { id: true, data: true },
+  });
+
+  for (const item of items.slice(0, STORE_BATCH_SIZE)) {
+    await storeItem(importJob.userId, importJob.id, item);
+  }
+  return items.length > STORE_BATCH_SIZE;
+}
+
+/**
+ * Filter for items no live batch is embedding
+ */
+const unclaimed = (): Prisma.ConversationImportItemWhereInput[] => [
+  { embeddingClaimedAt: null },
+  { embeddingClaimedAt: { lt: new Date(Date.now() - EMBED_CLAIM_TIMEOUT_MS) } },
+];
+
+/**
+ * Stop embedding for the rest of an import, keeping the reason for the user
+ */
+const stopEmbedding = (importId: string, reason: string) =>
+  prisma.conversationImport.update({
+    where: { id: importId },
+    data: { embeddingError: reason },
+  });
+
+/**
+ * Embed the messages of the next stored conversations into the user's
+ * vector store, checking the user's limits before each one
+ * Returns whether any are left
+ */
+async function embedNextItems(importJob: ConversationImport): Promise<boolean> {
+  const { id: importId, userId } = importJob;
+  const vectorStore = getVectorStore();
+  if (!vectorStore) {
+    await stopEmbedding(importId, "No vector store is configured");
+    return false;
+  }
+
+  const items = await prisma.conversationImportItem.findMany({
+    where: {
+      importId,
+      conversationId: { not: null },
+      embedded: false,
+      OR: unclaimed(),
+    },
+    orderBy: { position: "asc" },
+    take: EMBED_BATCH_SIZE + 1,
+    select: { id: true, conversationId: true },
+  });
+
+  const service = getEmbeddingProvider().service;
+  const model = getEmbeddingModel();
+  let spent = 0;
+
+  for (const item of items.slice(0, EMBED_BATCH_SIZE)) {
+    // Claimed before anything is billed; a batch that loses the race
+    // leaves the item to the winner
+    const { count } = await prisma.conversationImportItem.updateMany({
+      where: { id: item.id, embedded: false, OR: unclaimed() },
+      data: { embeddingClaimedAt: new Date() },
+    });
+    if (count === 0) {
+      continue;
+    }
+    const release = () =>
+      prisma.conversationImportItem.update({
+        where: { id: item.id },
+        data: { embeddingClaimedAt: null },
+      });
+
+    const conversationId = item.conversationId!;
+    const messages = await prisma.message.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, role: true, content: true, timestamp: true },
+    });
+    const texts = messages.map((message) =>
+      message.content.slice(0, MAX_EMBEDDED_LENGTH)
+    );
+
+    // Checked at full price; cached texts only make it cheaper
+    const estimate = calculateEmbeddingCost(
+      model,
+      texts.reduce((total, text) => total + countTokens(text, model), 0),
+      service
+    );
+    const limitCheck = await checkUserLimits(userId, estimate);
+    if (!limitCheck.allowed) {
+      await release();
+      await stopEmbedding(
+        importId,
+        `Stopped embedding: ${limitCheck.reason ?? "cost limit reached"}`
+      );
+      break;
+    }
+
+    let cost = 0;
+    try {
+      for (let start = 0; start < texts.length; start += EMBED_CHUNK_SIZE) {
+        const chunk = texts.slice(start, start + EMBED_CHUNK_SIZE);
+        const embeddingResult = await embedWithCache(chunk);
+        cost += await logCachedEmbedding(chunk, embeddingResult, {
+          userId,
+          conversationId,
+          service,
+          metadata: { purpose: "import-backfill", importId },
+        });
+
+        // Stored message IDs as vector IDs, so search can find them
+        await storeMessageEmbeddings(
+          userId,
+          chunk.map((content, i) => {
+            const message = messages[start + i];
+            return {
+              id: message.id,
+              values: embeddingResult.embeddings[i],
+              metadata: {
+                content,
+                role: message.role === "assistant" ? "assistant" : "user",
+                timestamp: message.timestamp.toISOString(),
+                userId,
+                conversationId,
+                messageId: message.id,
+              },
+            };
+          })
+        );
+        cost += await logVectorStoreUpsert(vectorStore.service, {
+          userId,
+          conversationId,
+          metadata: { purpose: "import-backfill", importId },
+        });
+      }
+    } catch (error) {
+      // Left for the retry, which normally finds the texts embedded so far
+      // in the embedding cache rather than paying for them again
+      await release().catch((releaseError) => {
+        console.error("Failed to release import item:", releaseError);
+      });
+      throw error;
+    }
+
+    await prisma.$transaction([
+      prisma.conversationImportItem.update({
+        where: { id: item.id },
+        data: { embedded: true },
+      }),
+      prisma.conversationImport.update({
+        where: { id: importId },
+        data: {
+          embeddedMessages: { increment: messages.length },
+          embeddingCost: { increment: cost },
+        },
+      }),
+    ]);
+    spent += cost;
+  }
+
+  if (spent > 0) {
+    await updateUserCostLimits(userId);
+  }
+
+  const current = await prisma.conversationImport.findUnique({
+    where: { id: importId },
+    select: { embeddingError: true },
+  });
+  return !current?.embeddingError && items.length > EMBED_BATCH_SIZE;
+}
+
+/**
+ * Run one batch of an import
+ * Returns whether another batch is needed. A failure is recorded on the
+ * import and rethrown, so the job is retried.
+ */
+export async function runImportBatch(importId: string): Promise<boolean> {
+  const importJob = await prisma.conversationImport.findUnique({
+    where: { id: importId },
+  });
+  if (!importJob || importJob.status === ImportStatus.COMPLETED) {
+    return false;
+  }
+
+  try {
+    await prisma.conversationImport.update({
+      where: { id: importId },
+      data: { status: ImportStatus.RUNNING, lastError: null },
+    });
+
+    let more = await storeNextItems(importJob);
+    if (!more && importJob.backfillEmbeddings && !importJob.embeddingError) {
+      more = await embedNextItems(importJob);
+    }
+
+    if (!more) {
+      await prisma.conversationImport.update({
+        where: { id: importId },
+        data: { status: ImportStatus.COMPLETED, completedAt: new Date() },
+      });
+    }
+    return more;
+  } catch (error) {
+    await prisma.conversationImport
+      .update({
+        where: { id: importId },
+        data: {
+          lastError: error instanceof Error ? error.message : String(error),
+        },
+      })
+      .catch((updateError) => {
+        console.error("Failed to record import error:", updateError);
+      });
+    throw error;
+  }
+}
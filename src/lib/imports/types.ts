@@ -0,0 +1,53 @@
+import { TemplateSelection } from "@/types";
+
+/**
+ * A message in the importer's normalised shape, whatever the source
+ */
+export type ImportedMessage = {
+  /** Source ID, unique within the conversation */
+  key: string;
+  /** Key of the message this one follows; null for the first */
+  parentKey: string | null;
+  /** The selected sibling among its versions */
+  selected: boolean;
+  role: "user" | "assistant";
+  content: string;
+  /** ISO timestamp from the source */
+  timestamp: string;
+  model?: string;
+  templates?: TemplateSelection[];
+};
+
+/**
+ * A conversation in the importer's normalised shape, stored as JSON on its
+ * import item until a batch writes it out (so these are type aliases,
+ * which Prisma's JSON input types accept, rather than interfaces)
+ */
+export type ImportedConversation = {
+  title: string | null;
+  overview?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Parents always come before their children */
+  messages: ImportedMessage[];
+};
+
+/**
+ * Thrown when an uploaded file isn't in a format we can import
+ */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+/**
+ * Thrown when resuming an import that still has a batch queued or running
+ */
+export class ImportInProgressError extends Error {
+  constructor() {
+    super("This import is still running");
+    this.name = "ImportInProgressError";
+  }
+}
@@ -0,0 +1,138 @@
+import { describeConversation } from "@/lib/conversationOverview";
+import { embedWithCache, logCachedEmbedding } from "@/lib/embeddingCache";
+import { getJobUsage, logVectorStoreUpsert } from "@/lib/costTracking";
+import { queueImportBatch, runImportBatch } from "@/lib/imports";
+import { settleReservation, updateUserCostLimits } from "@/lib/limitChecker";
+import { getVectorStore, storeMessageEmbedding } from "@/lib/vectorStore";
+import { JobHandler, JobType } from "./types";
+
+/**
+ * Embed and store both messages of an exchange (just the reply for a
+ * regenerated one), then settle the request's reservation with the
+ * indexing cost included
+ * Usage rows carry the job ID and step, so a retry redoes the (idempotent)
+ * writes without logging a step twice
+ */
+const indexExchange: JobHandler<"index-exchange"> = async (
+  {
+    userId,
+    conversationId,
+    message,
+    reply,
+    userMessageId,
+    assistantMessageId,
+    timestamp,
+    embeddingService,
+    reservationId,
+    settledCost,
+    regenerated = false,
+  },
+  { jobId, attempt }
+) => {
+  const vectorStore = getVectorStore();
+  const logged =
+    attempt > 1
+      ? await getJobUsage(userId, jobId)
+      : { steps: new Set<string>(), cost: 0 };
+  let cost = settledCost + logged.cost;
+
+  const logOptions = (step: string) => ({
+    userId,
+    conversationId,
+    metadata: { jobId, step },
+  });
+
+  if (vectorStore) {
+    // One batched call; the user message was embedded for retrieval, so
+    // it normally comes from the cache. A regenerated reply's prompt is
+    // already stored from the first version
+    const texts = regenerated ? [reply] : [message, reply];
+    const embeddingResult = await embedWithCache(texts);
+    const assistantEmbedding = embeddingResult.embeddings[texts.length - 1];
+
+    if (!logged.steps.has("embedding")) {
+      cost += await logCachedEmbedding(texts, embeddingResult, {
+        ...logOptions("embedding"),
+        service: embeddingService,
+      });
+    }
+
+    if (!regenerated) {
+      await storeMessageEmbedding(userMessageId, embeddingResult.embeddings[0], {
+        content: message,
+        role: "user",
+        timestamp,
+        userId,
+        conversationId,
+        messageId: userMessageId,
+      });
+      if (!logged.steps.has("user-upsert")) {
+        cost += await logVectorStoreUpsert(
+          vectorStore.service,
+          logOptions("user-upsert")
+        );
+      }
+    }
+
+    await storeMessageEmbedding(assistantMessageId, assistantEmbedding, {
+      content: reply,
+      role: "assistant",
+      timestamp,
+      userId,
+      conversationId,
+      messageId: assistantMessageId,
+    });
+    if (!logged.steps.has("assistant-upsert")) {
+      cost += await logVectorStoreUpsert(
+        vectorStore.service,
+        logOptions("assistant-upsert")
+      );
+    }
+  }
+
+  if (reservationId) {
+    await settleReservation(reservationId, cost);
+  }
+  await updateUserCostLimits(userId);
+};
+
+/**
+ * Title and summarise a conversation, then count the call against the
+ * user's spend
+ */
+const describeConversationJob: JobHandler<"describe-conversation"> = async ({
+  userId,
+  conversationId,
+}) => {
+  const cost = await describeConversation(userId, conversationId);
+  if (cost > 0) {
+    await updateUserCostLimits(userId);
+  }
+};
+
+/**
+ * Run one batch of an import, queueing the next while work remains
+ */
+const importConversations: JobHandler<"import-conversations"> = async ({
+  importId,
+}) => {
+  if (await runImportBatch(importId)) {
+    await queueImportBatch(importId);
+  }
+};
+
+/**
+ * Refresh the user's cached spend from api_usage
+ */
+const updateCostLimits: JobHandler<"update-cost-limits"> = async ({
+  userId,
+}) => {
+  await updateUserCostLimits(userId);
+};
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  "index-exchange": indexExchange,
+  "describe-conversation": describeConversationJob,
+  "import-conversations": importConversations,
+  "update-cost-limits": updateCostLimits,
+};
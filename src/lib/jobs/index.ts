@@ -0,0 +1,17 @@
+export {
+  discardJob,
+  drainJobs,
+  enqueueJob,
+  getJobCounts,
+  getJobRunner,
+  listJobs,
+  processJobs,
+  retryJob,
+  type JobRunner,
+} from "./queue";
+export type {
+  EnqueueOptions,
+  JobPayloads,
+  JobType,
+  ProcessJobsResult,
+} from "./types";
@@ -0,0 +1,56 @@
+import { ApiService } from "@prisma/client";
+import { JobPayloads, JobType } from "./types";
+
+/**
+ * Payload checks, one per job type
+ * Payloads are read back from a JSON column, and a job may have been
+ * queued by an older release, so each is checked before its handler runs.
+ */
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const areStrings = (payload: Fields, keys: string[]): boolean =>
+  keys.every((key) => typeof payload[key] === "string");
+
+const isOptional = (value: unknown, type: "string" | "boolean"): boolean =>
+  value === undefined || typeof value === type;
+
+export const jobPayloadChecks: {
+  [T in JobType]: (payload: unknown) => payload is JobPayloads[T];
+} = {
+  "index-exchange": (payload): payload is JobPayloads["index-exchange"] =>
+    isFields(payload) &&
+    areStrings(payload, [
+      "userId",
+      "message",
+      "reply",
+      "userMessageId",
+      "assistantMessageId",
+      "timestamp",
+    ]) &&
+    Object.values(ApiService).includes(
+      payload.embeddingService as ApiService
+    ) &&
+    typeof payload.settledCost === "number" &&
+    isOptional(payload.conversationId, "string") &&
+    isOptional(payload.reservationId, "string") &&
+    isOptional(payload.regenerated, "boolean"),
+
+  "describe-conversation": (
+    payload
+  ): payload is JobPayloads["describe-conversation"] =>
+    isFields(payload) && areStrings(payload, ["userId", "conversationId"]),
+
+  "import-conversations": (
+    payload
+  ): payload is JobPayloads["import-conversations"] =>
+    isFields(payload) && areStrings(payload, ["importId"]),
+
+  "update-cost-limits": (
+    payload
+  ): payload is JobPayloads["update-cost-limits"] =>
+    isFields(payload) && areStrings(payload, ["userId"]),
+};
@@ -0,0 +1,294 @@
+import { Job, JobStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { jobHandlers } from "./handlers";
+import { jobPayloadChecks } from "./payloads";
+import {
+  EnqueueOptions,
+  JobHandler,
+  JobPayloads,
+  JobType,
+  ProcessJobsResult,
+} from "./types";
+
+/**
+ * Where jobs run, selected with the JOB_RUNNER env var
+ * inline processes them in the web process right after they're enqueued;
+ * worker leaves them for `npm run worker`
+ */
+export type JobRunner = "inline" | "worker";
+
+const JOB_RUNNERS: JobRunner[] = ["inline", "worker"];
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// A running job whose worker died is picked up again after this long
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// Jobs claimed per pass
+const BATCH_SIZE = 10;
+// Longest error message kept on a job
+const MAX_ERROR_LENGTH = 2000;
+
+/**
+ * Resolve the configured runner (default inline)
+ */
+export const getJobRunner = (): JobRunner => {
+  const configured = process.env.JOB_RUNNER?.toLowerCase();
+  if (!configured) {
+    return "inline";
+  }
+
+  if (!JOB_RUNNERS.includes(configured as JobRunner)) {
+    throw new Error(
+      `Invalid JOB_RUNNER "${configured}". Expected one of: ${JOB_RUNNERS.join(
+        ", "
+      )}`
+    );
+  }
+  return configured as JobRunner;
+};
+
+/**
+ * With the inline runner, start a pass over the queue without waiting on it
+ */
+const processInBackground = (): void => {
+  if (getJobRunner() === "inline") {
+    processJobs().catch((error) => {
+      console.error("Failed to process jobs:", error);
+    });
+  }
+};
+
+/**
+ * With the inline runner, start a pass once a delayed job is due
+ * The timer lives in this process, so after a restart the job waits for
+ * the next enqueue
+ */
+const processWhenDue = (runAt: Date): void => {
+  if (getJobRunner() === "inline") {
+    setTimeout(processInBackground, Math.max(0, runAt.getTime() - Date.now()));
+  }
+};
+
+/**
+ * Add a job to the queue
+ * With the inline runner the queue is processed in the background straight
+ * away, and again when a delayed job or retry is due
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {}
+): Promise<string> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      ...(options.runAt && { runAt: options.runAt }),
+    },
+  });
+
+  processInBackground();
+  if (options.runAt) {
+    processWhenDue(options.runAt);
+  }
+
+  return job.id;
+}
+
+/**
+ * Claim due jobs, skipping rows another worker holds
+ * Claiming counts as an attempt, so a job that crashes its worker still
+ * runs out of attempts
+ */
+async function claimJobs(limit: number, dueBy: Date): Promise<Job[]> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "jobs"
+    SET "status" = 'RUNNING', "lockedAt" = NOW(),
+        "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" IN (
+      SELECT "id" FROM "jobs"
+      WHERE ("status" = 'PENDING' AND "runAt" <= ${dueBy})
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt"
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  return prisma.job.findMany({
+    where: { id: { in: claimed.map((row) => row.id) } },
+    orderBy: { runAt: "asc" },
+  });
+}
+
+/**
+ * Delay before the next attempt: exponential, capped
+ */
+const getRetryDelay = (attempts: number): number =>
+  Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+
+/**
+ * Run a claimed job and record the outcome
+ */
+async function runJob(job: Job): Promise<keyof ProcessJobsResult> {
+  const handler = jobHandlers[job.type as JobType] as
+    | JobHandler<JobType>
+    | undefined;
+  const isPayload = jobPayloadChecks[job.type as JobType] as
+    | ((payload: unknown) => payload is JobPayloads[JobType])
+    | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type "${job.type}"`);
+    }
+    if (!isPayload?.(job.payload)) {
+      throw new Error(`Malformed payload for job type "${job.type}"`);
+    }
+    await handler(job.payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+    });
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+    return "completed";
+  } catch (error) {
+    const lastError = (
+      error instanceof Error ? error.stack || error.message : String(error)
+    ).slice(0, MAX_ERROR_LENGTH);
+    // Retrying can't fix a missing handler or a malformed payload
+    const dead =
+      !handler || !isPayload?.(job.payload) || job.attempts >= job.maxAttempts;
+    const runAt = new Date(Date.now() + getRetryDelay(job.attempts));
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: dead ? JobStatus.DEAD : JobStatus.PENDING,
+        lockedAt: null,
+        lastError,
+        ...(!dead && { runAt }),
+      },
+    });
+    if (dead) {
+      console.error(`Job ${job.id} (${job.type}) failed for good:`, error);
+    } else {
+      processWhenDue(runAt);
+    }
+    return dead ? "dead" : "retried";
+  }
+}
+
+/**
+ * Claim and run one batch of due jobs
+ */
+export async function processJobs(
+  options: { limit?: number; dueBy?: Date } = {}
+): Promise<ProcessJobsResult> {
+  const result: ProcessJobsResult = { completed: 0, retried: 0, dead: 0 };
+  const jobs = await claimJobs(
+    options.limit ?? BATCH_SIZE,
+    options.dueBy ?? new Date()
+  );
+
+  // One at a time, so a worker's database load stays predictable
+  for (const job of jobs) {
+    result[await runJob(job)]++;
+  }
+  return result;
+}
+
+/**
+ * Process jobs until none are left to claim
+ * Tests use this to run queued work before asserting on it (with
+ * JOB_RUNNER=worker, so enqueueing doesn't start a background pass); pass
+ * includeScheduled to also run retries that aren't due yet
+ */
+export async function drainJobs(
+  options: { includeScheduled?: boolean } = {}
+): Promise<ProcessJobsResult> {
+  const total: ProcessJobsResult = { completed: 0, retried: 0, dead: 0 };
+  // Far enough ahead to cover any retry delay
+  const dueBy = options.includeScheduled
+    ? new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)
+    : undefined;
+
+  for (;;) {
+    const result = await processJobs({ dueBy });
+    total.completed += result.completed;
+    total.retried += result.retried;
+    total.dead += result.dead;
+    if (result.completed + result.retried + result.dead === 0) {
+      return total;
+    }
+  }
+}
+
+/**
+ * Number of jobs in each status
+ */
+export async function getJobCounts(): Promise<Record<JobStatus, number>> {
+  const groups = await prisma.job.groupBy({
+    by: ["status"],
+    _count: { _all: true },
+  });
+
+  const counts = Object.fromEntries(
+    Object.values(JobStatus).map((status) => [status, 0])
+  ) as Record<JobStatus, number>;
+  groups.forEach((group) => {
+    counts[group.status] = group._count._all;
+  });
+  return counts;
+}
+
+/**
+ * Most recently updated jobs in a status
+ */
+export async function listJobs(status: JobStatus, limit = 50): Promise<Job[]> {
+  return prisma.job.findMany({
+    where: { status },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Queue a dead job again with a fresh set of attempts
+ * Returns false when there is no dead job with that ID
+ */
+export async function retryJob(id: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: JobStatus.DEAD },
+    data: { status: JobStatus.PENDING, attempts: 0, runAt: new Date() },
+  });
+
+  if (count > 0) {
+    processInBackground();
+  }
+  return count > 0;
+}
+
+/**
+ * Delete a dead job
+ * Returns false when there is no dead job with that ID
+ */
+export async function discardJob(id: string): Promise<boolean> {
+  const { count } = await prisma.job.deleteMany({
+    where: { id, status: JobStatus.DEAD },
+  });
+  return count > 0;
+}
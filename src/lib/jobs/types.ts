@@ -0,0 +1,80 @@
+import { ApiService } from "@prisma/client";
+
+/**
+ * Payloads for each job type
+ * Payloads are stored as JSON, so they hold plain data only
+ */
+export interface JobPayloads {
+  /** Embed both sides of an exchange and store them for RAG */
+  "index-exchange": {
+    userId: string;
+    conversationId?: string;
+    message: string;
+    reply: string;
+    /** Vector IDs, fixed up front so a retry overwrites instead of duplicating */
+    userMessageId: string;
+    assistantMessageId: string;
+    /** ISO timestamp stored with both vectors */
+    timestamp: string;
+    embeddingService: ApiService;
+    /** Reservation to settle once indexing costs are logged */
+    reservationId?: string;
+    /** Cost already logged for the request, settled with the indexing cost */
+    settledCost: number;
+    /** Another version of a reply; its prompt was indexed with the first */
+    regenerated?: boolean;
+  };
+  /** Write a conversation's automatic title and overview */
+  "describe-conversation": {
+    userId: string;
+    conversationId: string;
+  };
+  /** Store (and optionally embed) the next batch of an import */
+  "import-conversations": {
+    importId: string;
+  };
+  /** Recalculate a user's cached daily and monthly spend */
+  "update-cost-limits": {
+    userId: string;
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * The job a handler is running
+ */
+export interface JobContext {
+  jobId: string;
+  /** Attempts so far, including this one */
+  attempt: number;
+}
+
+/**
+ * Runs one job; throwing schedules a retry
+ */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  context: JobContext
+) => Promise<void>;
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+  /** Earliest time to run (defaults to now) */
+  runAt?: Date;
+  /** Attempts before the job is dead-lettered (defaults to 5) */
+  maxAttempts?: number;
+}
+
+/**
+ * Counts from one pass over the queue
+ */
+export interface ProcessJobsResult {
+  completed: number;
+  /** Failed and scheduled for another attempt */
+  retried: number;
+  /** Failed for the last time */
+  dead: number;
+}
@@ -1,6 +1,11 @@
+import { Prisma, ReservationStatus } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getUserDailyCost, getUserMonthlyCost } from "@/lib/costTracking";
 
+// How long a pending reservation counts against limits; covers the
+// slowest completion, so a crashed request can't hold budget forever
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
 /**
  * Result of a limit check
  */
@@ -11,6 +16,15 @@ export interface LimitCheckResult {
   dailyLimit?: number;
   monthlyUsage?: number;
   monthlyLimit?: number;
+  /** When the exceeded limit's period ends, if a limit was exceeded */
+  resetsAt?: Date;
+}
+
+/**
+ * Result of a cost reservation; reservationId is set when one was taken
+ */
+export interface ReservationResult extends LimitCheckResult {
+  reservationId?: string;
 }
 
 /**
@@ -120,6 +134,100 @@ async function resetMonthlyCounterIfNeeded(
   }
 }
 
+/**
+ * Compare current spend plus an estimated cost against the user's limits
+ */
+function evaluateLimits(
+  userLimit: { dailyLimit: number; monthlyLimit: number },
+  dailyCost: number,
+  monthlyCost: number,
+  estimatedCost?: number
+): LimitCheckResult {
+  // Check if adding estimated cost would exceed limits
+  const projectedDaily = estimatedCost ? dailyCost + estimatedCost : dailyCost;
+  const projectedMonthly = estimatedCost
+    ? monthlyCost + estimatedCost
+    : monthlyCost;
+
+  const { startOfDay, startOfMonth } = getPeriodStarts();
+
+  // Check daily limit
+  if (projectedDaily > userLimit.dailyLimit) {
+    const startOfNextDay = new Date(startOfDay);
+    startOfNextDay.setDate(startOfNextDay.getDate() + 1);
+    return {
+      allowed: false,
+      reason: `Daily limit exceeded. Current: $${dailyCost.toFixed(
+        2
+      )}, Limit: $${userLimit.dailyLimit.toFixed(2)}`,
+      dailyUsage: dailyCost,
+      dailyLimit: userLimit.dailyLimit,
+      monthlyUsage: monthlyCost,
+      monthlyLimit: userLimit.monthlyLimit,
+      resetsAt: startOfNextDay,
+    };
+  }
+
+  // Check monthly limit
+  if (projectedMonthly > userLimit.monthlyLimit) {
+    const startOfNextMonth = new Date(startOfMonth);
+    startOfNextMonth.setMonth(startOfNextMonth.getMonth() + 1);
+    return {
+      allowed: false,
+      reason: `Monthly limit exceeded. Current: $${monthlyCost.toFixed(
+        2
+      )}, Limit: $${userLimit.monthlyLimit.toFixed(2)}`,
+      dailyUsage: dailyCost,
+      dailyLimit: userLimit.dailyLimit,
+      monthlyUsage: monthlyCost,
+      monthlyLimit: userLimit.monthlyLimit,
+      resetsAt: startOfNextMonth,
+    };
+  }
+
+  return {
+    allowed: true,
+    dailyUsage: dailyCost,
+    dailyLimit: userLimit.dailyLimit,
+    monthlyUsage: monthlyCost,
+    monthlyLimit: userLimit.monthlyLimit,
+  };
+}
+
+/**
+ * Sum of a user's pending, unexpired reservations created since a date
+ */
+async function getPendingReservedCost(
+  userId: string,
+  since: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const result = await client.costReservation.aggregate({
+    where: {
+      userId,
+      status: ReservationStatus.PENDING,
+      createdAt: { gte: since },
+      expiresAt: { gt: new Date() },
+    },
+    _sum: { amount: true },
+  });
+
+  return result._sum.amount ?? 0;
+}
+
+/**
+ * Start of the current day and month, matching getUserDailyCost/MonthlyCost
+ */
+function getPeriodStarts(): { startOfDay: Date; startOfMonth: Date } {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const startOfMonth = new Date(startOfDay);
+  startOfMonth.setDate(1);
+
+  return { startOfDay, startOfMonth };
+}
+
 /**
  * Check if user can make a request based on their cost limits
  * This checks both daily and monthly limits
@@ -138,53 +246,22 @@ export async function checkUserLimits(
     // Refresh user limit after potential resets
     userLimit = await getOrCreateUserLimits(userId);
 
-    // Get actual costs from database (more accurate than cached values)
-    const actualDailyCost = await getUserDailyCost(userId);
-    const actualMonthlyCost = await getUserMonthlyCost(userId);
-
-    // Check if adding estimated cost would exceed limits
-    const projectedDaily = estimatedCost
-      ? actualDailyCost + estimatedCost
-      : actualDailyCost;
-    const projectedMonthly = estimatedCost
-      ? actualMonthlyCost + estimatedCost
-      : actualMonthlyCost;
-
-    // Check daily limit
-    if (projectedDaily > userLimit.dailyLimit) {
-      return {
-        allowed: false,
-        reason: `Daily limit exceeded. Current: $${actualDailyCost.toFixed(
-          2
-        )}, Limit: $${userLimit.dailyLimit.toFixed(2)}`,
-        dailyUsage: actualDailyCost,
-        dailyLimit: userLimit.dailyLimit,
-        monthlyUsage: actualMonthlyCost,
-        monthlyLimit: userLimit.monthlyLimit,
-      };
-    }
-
-    // Check monthly limit
-    if (projectedMonthly > userLimit.monthlyLimit) {
-      return {
-        allowed: false,
-        reason: `Monthly limit exceeded. Current: $${actualMonthlyCost.toFixed(
-          2
-        )}, Limit: $${userLimit.monthlyLimit.toFixed(2)}`,
-        dailyUsage: actualDailyCost,
-        dailyLimit: userLimit.dailyLimit,
-        monthlyUsage: actualMonthlyCost,
-        monthlyLimit: userLimit.monthlyLimit,
-      };
-    }
-
-    return {
-      allowed: true,
-      dailyUsage: actualDailyCost,
-      dailyLimit: userLimit.dailyLimit,
-      monthlyUsage: actualMonthlyCost,
-      monthlyLimit: userLimit.monthlyLimit,
-    };
+    // Get actual costs from database (more accurate than cached values),
+    // plus whatever in-flight requests have reserved
+    const { startOfDay, startOfMonth } = getPeriodStarts();
+    const actualDailyCost =
+      (await getUserDailyCost(userId)) +
+      (await getPendingReservedCost(userId, startOfDay));
+    const actualMonthlyCost =
+      (await getUserMonthlyCost(userId)) +
+      (await getPendingReservedCost(userId, startOfMonth));
+
+    return evaluateLimits(
+      userLimit,
+      actualDailyCost,
+      actualMonthlyCost,
+      estimatedCost
+    );
   } catch (error) {
     console.error("Failed to check user limits:", error);
     // On error, allow the request (fail open) but log the error
@@ -196,38 +273,139 @@ export async function checkUserLimits(
 }
 
 /**
- * Update user cost limits after a cost is incurred
- * This is called after logging API usage to keep counters in sync
+ * Reserve an estimated cost against the user's limits before calling a model
+ * The user's limit row is locked for the check-and-insert, so concurrent
+ * requests are serialised and each sees the others' pending reservations.
+ * Settle or release the reservation once the request is done.
  */
-export async function updateUserCostLimits(
-  userId: string
-  // cost parameter removed - we calculate from DB for accuracy
-): Promise<void> {
+export async function reserveCost(
+  userId: string,
+  estimatedCost: number
+): Promise<ReservationResult> {
   try {
     const userLimit = await getOrCreateUserLimits(userId);
 
-    // Reset counters if needed before updating
+    // Reset counters if needed
     await resetDailyCounterIfNeeded(userLimit);
     await resetMonthlyCounterIfNeeded(userLimit);
 
-    // Get actual costs from database
-    const actualDailyCost = await getUserDailyCost(userId);
-    const actualMonthlyCost = await getUserMonthlyCost(userId);
+    return await prisma.$transaction(async (tx) => {
+      // Serialise reservations per user
+      await tx.$queryRaw`
+        SELECT "id" FROM "user_cost_limits" WHERE "userId" = ${userId} FOR UPDATE
+      `;
 
-    // Update the limits with actual costs (they should match, but use DB values for accuracy)
-    await prisma.userCostLimit.update({
-      where: { userId },
+      // Re-read limits under the lock
+      const lockedLimit = await tx.userCostLimit.findUniqueOrThrow({
+        where: { userId },
+      });
+
+      const { startOfDay, startOfMonth } = getPeriodStarts();
+      const [dailyCost, monthlyCost, pendingDaily, pendingMonthly] =
+        await Promise.all([
+          getUserDailyCost(userId),
+          getUserMonthlyCost(userId),
+          getPendingReservedCost(userId, startOfDay, tx),
+          getPendingReservedCost(userId, startOfMonth, tx),
+        ]);
+
+      const result = evaluateLimits(
+        lockedLimit,
+        dailyCost + pendingDaily,
+        monthlyCost + pendingMonthly,
+        estimatedCost
+      );
+      if (!result.allowed) {
+        return result;
+      }
+
+      const reservation = await tx.costReservation.create({
+        data: {
+          userId,
+          amount: estimatedCost,
+          expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+        },
+      });
+
+      return { ...result, reservationId: reservation.id };
+    });
+  } catch (error) {
+    console.error("Failed to reserve cost:", error);
+    // On error, allow the request (fail open) like checkUserLimits
+    return {
+      allowed: true,
+      reason: "Error checking limits, request allowed",
+    };
+  }
+}
+
+/**
+ * Settle a reservation once the real cost has been logged to api_usage
+ * Log usage first: settling removes the reservation from pending spend
+ */
+export async function settleReservation(
+  reservationId: string,
+  actualCost: number
+): Promise<void> {
+  try {
+    await prisma.costReservation.updateMany({
+      where: { id: reservationId, status: ReservationStatus.PENDING },
+      data: {
+        status: ReservationStatus.SETTLED,
+        actualCost,
+        settledAt: new Date(),
+      },
+    });
+  } catch (error) {
+    // Log error but don't throw - the reservation expires on its own
+    console.error("Failed to settle cost reservation:", error);
+  }
+}
+
+/**
+ * Release a reservation for a request that failed before incurring cost
+ */
+export async function releaseReservation(reservationId: string): Promise<void> {
+  try {
+    await prisma.costReservation.updateMany({
+      where: { id: reservationId, status: ReservationStatus.PENDING },
       data: {
-        currentDaily: actualDailyCost,
-        currentMonthly: actualMonthlyCost,
+        status: ReservationStatus.RELEASED,
+        settledAt: new Date(),
       },
     });
   } catch (error) {
-    // Log error but don't throw - limit updates should not break the main flow
-    console.error("Failed to update user cost limits:", error);
+    // Log error but don't throw - the reservation expires on its own
+    console.error("Failed to release cost reservation:", error);
   }
 }
 
+/**
+ * Update user cost limits after a cost is incurred
+ * This runs as a background job after usage is logged; errors are thrown
+ * so the job is retried
+ */
+export async function updateUserCostLimits(userId: string): Promise<void> {
+  const userLimit = await getOrCreateUserLimits(userId);
+
+  // Reset counters if needed before updating
+  await resetDailyCounterIfNeeded(userLimit);
+  await resetMonthlyCounterIfNeeded(userLimit);
+
+  // Get actual costs from database
+  const actualDailyCost = await getUserDailyCost(userId);
+  const actualMonthlyCost = await getUserMonthlyCost(userId);
+
+  // Update the limits with actual costs (they should match, but use DB values for accuracy)
+  await prisma.userCostLimit.update({
+    where: { userId },
+    data: {
+      currentDaily: actualDailyCost,
+      currentMonthly: actualMonthlyCost,
+    },
+  });
+}
+
 /**
  * Set custom limits for a user
  */
@@ -265,6 +443,7 @@ export async function getUserLimitStatus(userId: string): Promise<{
   monthlyRemaining: number;
   dailyPercentage: number;
   monthlyPercentage: number;
+  pendingReserved: number;
 }> {
   try {
     const userLimit = await getOrCreateUserLimits(userId);
@@ -277,9 +456,17 @@ export async function getUserLimitStatus(userId: string): Promise<{
       console.error("Error resetting monthly counter:", error);
     });
 
-    // Get actual costs from database
-    const actualDailyCost = await getUserDailyCost(userId);
-    const actualMonthlyCost = await getUserMonthlyCost(userId);
+    // Get actual costs from database, plus in-flight reservations
+    const { startOfDay, startOfMonth } = getPeriodStarts();
+    const [spentDaily, spentMonthly, pendingDaily, pendingMonthly] =
+      await Promise.all([
+        getUserDailyCost(userId),
+        getUserMonthlyCost(userId),
+        getPendingReservedCost(userId, startOfDay),
+        getPendingReservedCost(userId, startOfMonth),
+      ]);
+    const actualDailyCost = spentDaily + pendingDaily;
+    const actualMonthlyCost = spentMonthly + pendingMonthly;
 
     // Prevent division by zero
     const dailyLimit = userLimit.dailyLimit || 0.045;
@@ -296,6 +483,7 @@ export async function getUserLimitStatus(userId: string): Promise<{
         dailyLimit > 0 ? (actualDailyCost / dailyLimit) * 100 : 0,
       monthlyPercentage:
         monthlyLimit > 0 ? (actualMonthlyCost / monthlyLimit) * 100 : 0,
+      pendingReserved: pendingMonthly,
     };
   } catch (error) {
     console.error("Error in getUserLimitStatus:", error);
@@ -309,6 +497,7 @@ export async function getUserLimitStatus(userId: string): Promise<{
       monthlyRemaining: 1.35,
       dailyPercentage: 0,
       monthlyPercentage: 0,
+      pendingReserved: 0,
     };
   }
 }
@@ -0,0 +1,201 @@
+import { prisma } from "@/lib/prisma";
+import { getEmbeddingProvider } from "@/lib/chatProviders";
+import { logVectorStoreQuery } from "@/lib/costTracking";
+import { embedWithCache, logCachedEmbedding } from "@/lib/embeddingCache";
+import { getVectorStore, querySimilarMessages } from "@/lib/vectorStore";
+import { MessageSearchResult, SearchSnippetPart } from "@/types";
+
+/**
+ * Search over a user's stored messages
+ *
+ * Full-text hits come from the generated "searchVector" column on messages
+ * (GIN-indexed), ranked by ts_rank with ts_headline snippets. Semantic hits
+ * from the user's vector store can be merged in after them; they're only
+ * kept when they resolve to a message the user still has.
+ */
+
+// Markers ts_headline puts around matched words; control characters, so
+// they can't clash with message text
+const HIGHLIGHT_START = "\u0001";
+const HIGHLIGHT_STOP = "\u0002";
+
+const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, ` +
+  "MaxWords=35, MinWords=15, MaxFragments=2";
+
+// Semantic hits have no highlights, just the start of the message
+const SEMANTIC_SNIPPET_LENGTH = 200;
+
+// Below this similarity a semantic hit is mostly noise
+const SEMANTIC_MIN_SCORE = 0.5;
+
+interface TextHitRow {
+  id: string;
+  conversationId: string;
+  role: string;
+  timestamp: Date;
+  title: string | null;
+  headline: string;
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted parts
+ */
+const toSnippetParts = (headline: string): SearchSnippetPart[] => {
+  const parts: SearchSnippetPart[] = [];
+  for (const segment of headline.split(HIGHLIGHT_START)) {
+    const [highlighted, rest] = segment.includes(HIGHLIGHT_STOP)
+      ? segment.split(HIGHLIGHT_STOP, 2)
+      : ["", segment];
+    if (highlighted) parts.push({ text: highlighted, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  }
+  return parts;
+};
+
+const toRole = (role: string): "user" | "assistant" =>
+  role === "assistant" ? "assistant" : "user";
+
+/**
+ * Full-text search with Postgres' websearch syntax ("quoted phrases",
+ * -excluded words, or)
+ */
+async function searchMessageText(
+  userId: string,
+  query: string,
+  limit: number
+): Promise<MessageSearchResult[]> {
+  const rows = await prisma.$queryRaw<TextHitRow[]>`
+    WITH hits AS (
+      SELECT m."id", m."conversationId", m."role", m."content",
+             m."timestamp", c."title", q,
+             ts_rank(m."searchVector", q) AS rank
+      FROM "messages" m
+      JOIN "conversations" c ON c."id" = m."conversationId",
+           websearch_to_tsquery('english', ${query}) q
+      WHERE c."userId" = ${userId} AND m."searchVector" @@ q
+        AND NOT m."stopped"
+      ORDER BY rank DESC, m."timestamp" DESC
+      LIMIT ${limit}
+    )
+    SELECT "id", "conversationId", "role", "timestamp", "title",
+           ts_headline('english', "content", q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM hits
+    ORDER BY rank DESC, "timestamp" DESC
+  `;
+
+  return rows.map((row) => ({
+    messageId: row.id,
+    conversationId: row.conversationId,
+    conversationTitle: row.title,
+    role: toRole(row.role),
+    timestamp: row.timestamp.toISOString(),
+    snippet: toSnippetParts(row.headline),
+    match: "text",
+  }));
+}
+
+/**
+ * Messages similar in meaning, from the user's vector store
+ * Returns the cost of the embedding and the query
+ */
+async function searchSimilarMessages(
+  userId: string,
+  query: string,
+  limit: number
+): Promise<{ results: MessageSearchResult[]; cost: number }> {
+  const vectorStore = getVectorStore();
+  if (!vectorStore) {
+    return { results: [], cost: 0 };
+  }
+
+  const embeddingResult = await embedWithCache([query]);
+  let cost = await logCachedEmbedding([query], embeddingResult, {
+    userId,
+    service: getEmbeddingProvider().service,
+    metadata: { purpose: "message-search" },
+  });
+
+  const matches = await querySimilarMessages(embeddingResult.embeddings[0], {
+    userId,
+    topK: limit,
+    minScore: SEMANTIC_MIN_SCORE,
+  });
+  cost += await logVectorStoreQuery(vectorStore.service, { userId });
+
+  // Vectors outlive deleted conversations, so only messages that still
+  // exist are returned
+  const messages = await prisma.message.findMany({
+    where: {
+      id: { in: matches.map((match) => match.messageId) },
+      conversation: { userId },
+    },
+    select: {
+      id: true,
+      conversationId: true,
+      role: true,
+      content: true,
+      timestamp: true,
+      conversation: { select: { title: true } },
+    },
+  });
+  const byId = new Map(messages.map((message) => [message.id, message]));
+
+  const results: MessageSearchResult[] = [];
+  for (const match of matches) {
+    const message = byId.get(match.messageId);
+    if (!message) continue;
+    const text =
+      message.content.length > SEMANTIC_SNIPPET_LENGTH
+        ? `${message.content.slice(0, SEMANTIC_SNIPPET_LENGTH)}...`
+        : message.content;
+    results.push({
+      messageId: message.id,
+      conversationId: message.conversationId,
+      conversationTitle: message.conversation.title,
+      role: toRole(message.role),
+      timestamp: message.timestamp.toISOString(),
+      snippet: [{ text, highlighted: false }],
+      match: "semantic",
+    });
+  }
+  return { results, cost };
+}
+
+/**
+ * Search a user's messages: full-text hits by rank, then (with semantic)
+ * similar messages that weren't already found
+ * Returns the cost logged, which is zero without semantic search. If the
+ * embedding provider or vector store fails, the full-text hits are still
+ * returned, with semanticFailed set; the embedding may have been billed.
+ */
+export async function searchMessages(
+  userId: string,
+  query: string,
+  { limit, semantic = false }: { limit: number; semantic?: boolean }
+): Promise<{
+  results: MessageSearchResult[];
+  cost: number;
+  semanticFailed?: boolean;
+}> {
+  const textResults = await searchMessageText(userId, query, limit);
+  if (!semantic) {
+    return { results: textResults, cost: 0 };
+  }
+
+  let similar: Awaited<ReturnType<typeof searchSimilarMessages>>;
+  try {
+    similar = await searchSimilarMessages(userId, query, limit);
+  } catch (error) {
+    console.error("Semantic search failed:", error);
+    return { results: textResults, cost: 0, semanticFailed: true };
+  }
+  const found = new Set(textResults.map((result) => result.messageId));
+  return {
+    results: [
+      ...textResults,
+      ...similar.results.filter((result) => !found.has(result.messageId)),
+    ].slice(0, limit),
+    cost: similar.cost,
+  };
+}
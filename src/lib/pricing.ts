@@ -1,7 +1,7 @@
 /**
  * Pricing constants and cost calculation utilities
  *
- * Pricing is in USD per token (for OpenAI) or per operation (for Pinecone)
+ * Pricing is in USD per token (for OpenAI) or per operation (for vector stores)
  * Prices are based on OpenAI's pricing as of 2024
  * Update these values if pricing changes
  */
@@ -24,8 +24,40 @@ export const OPENAI_CHAT_PRICING = {
     input: 0.005, // $0.005 per 1K input tokens
     output: 0.015, // $0.015 per 1K output tokens
   },
+  "gpt-4o-mini": {
+    input: 0.00015, // $0.00015 per 1K input tokens
+    output: 0.0006, // $0.0006 per 1K output tokens
+  },
+} as const;
+
+// Anthropic Chat Models Pricing (per 1K tokens)
+export const ANTHROPIC_CHAT_PRICING = {
+  "claude-3-5-haiku-latest": {
+    input: 0.0008, // $0.0008 per 1K input tokens
+    output: 0.004, // $0.004 per 1K output tokens
+  },
+  "claude-3-5-sonnet-latest": {
+    input: 0.003, // $0.003 per 1K input tokens
+    output: 0.015, // $0.015 per 1K output tokens
+  },
+} as const;
+
+// All priced chat models, across vendors
+export const CHAT_PRICING = {
+  ...OPENAI_CHAT_PRICING,
+  ...ANTHROPIC_CHAT_PRICING,
+} as const;
+
+// Priced chat models per billed service; the keys double as the
+// allowlist of models users may pick for that provider
+export const PROVIDER_CHAT_PRICING = {
+  OPENAI: OPENAI_CHAT_PRICING,
+  ANTHROPIC: ANTHROPIC_CHAT_PRICING,
 } as const;
 
+// Services with no per-token charge: self-hosted models and the test mock
+export const UNMETERED_SERVICES = ["OPENAI_COMPATIBLE", "MOCK"] as const;
+
 // OpenAI Embedding Models Pricing (per 1M tokens)
 export const OPENAI_EMBEDDING_PRICING = {
   "text-embedding-3-small": 0.02, // $0.02 per 1M tokens
@@ -41,25 +73,51 @@ export const PINECONE_PRICING = {
   upsert: 0.0001, // $0.0001 per upsert operation (estimate)
 } as const;
 
+// Vector store pricing per operation, keyed by ApiService
+// pgvector runs in our own Postgres and the in-memory store in-process,
+// so neither has a per-call charge
+export const VECTOR_STORE_PRICING = {
+  PINECONE: PINECONE_PRICING,
+  PGVECTOR: { query: 0, upsert: 0 },
+  IN_MEMORY: { query: 0, upsert: 0 },
+} as const;
+
+/**
+ * Check whether a service is free per call (self-hosted or mock)
+ */
+export function isUnmeteredService(service?: string): boolean {
+  return (UNMETERED_SERVICES as readonly string[]).includes(service ?? "");
+}
+
 /**
- * Calculate cost for OpenAI chat completion
+ * Check whether a chat model has pricing, optionally for one service
+ */
+export function isPricedChatModel(model: string, service?: string): boolean {
+  const pricing = service
+    ? PROVIDER_CHAT_PRICING[service as keyof typeof PROVIDER_CHAT_PRICING]
+    : CHAT_PRICING;
+  return pricing !== undefined && model in pricing;
+}
+
+/**
+ * Calculate cost for a chat completion
+ * Pass the provider's service so self-hosted models are costed at zero
+ * Throws for unpriced models; callers validate the model up front
  */
 export function calculateChatCompletionCost(
   model: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  service?: string
 ): number {
-  const pricing =
-    OPENAI_CHAT_PRICING[model as keyof typeof OPENAI_CHAT_PRICING];
+  if (isUnmeteredService(service)) {
+    return 0;
+  }
+
+  const pricing = CHAT_PRICING[model as keyof typeof CHAT_PRICING];
 
   if (!pricing) {
-    // Default to gpt-3.5-turbo pricing if model not found
-    console.warn(`Unknown chat model: ${model}, using gpt-3.5-turbo pricing`);
-    const defaultPricing = OPENAI_CHAT_PRICING["gpt-3.5-turbo"];
-    return (
-      (inputTokens / 1000) * defaultPricing.input +
-      (outputTokens / 1000) * defaultPricing.output
-    );
+    throw new Error(`Unknown chat model: ${model}`);
   }
 
   return (
@@ -69,9 +127,18 @@ export function calculateChatCompletionCost(
 }
 
 /**
- * Calculate cost for OpenAI embedding
+ * Calculate cost for an embedding
+ * Pass the provider's service so self-hosted models are costed at zero
  */
-export function calculateEmbeddingCost(model: string, tokens: number): number {
+export function calculateEmbeddingCost(
+  model: string,
+  tokens: number,
+  service?: string
+): number {
+  if (isUnmeteredService(service)) {
+    return 0;
+  }
+
   const pricePerMillion =
     OPENAI_EMBEDDING_PRICING[model as keyof typeof OPENAI_EMBEDDING_PRICING];
 
@@ -94,6 +161,24 @@ export function calculatePineconeCost(operation: "query" | "upsert"): number {
   return PINECONE_PRICING[operation];
 }
 
+/**
+ * Calculate cost for a vector store operation
+ */
+export function calculateVectorStoreCost(
+  service: string,
+  operation: "query" | "upsert"
+): number {
+  const pricing =
+    VECTOR_STORE_PRICING[service as keyof typeof VECTOR_STORE_PRICING];
+
+  if (!pricing) {
+    console.warn(`Unknown vector store service: ${service}, assuming no cost`);
+    return 0;
+  }
+
+  return pricing[operation];
+}
+
 /**
  * Get pricing info for a specific model
  */
@@ -106,9 +191,8 @@ export function getModelPricing(model: string): {
   };
 } {
   // Check if it's a chat model
-  if (model in OPENAI_CHAT_PRICING) {
-    const chatPricing =
-      OPENAI_CHAT_PRICING[model as keyof typeof OPENAI_CHAT_PRICING];
+  if (model in CHAT_PRICING) {
+    const chatPricing = CHAT_PRICING[model as keyof typeof CHAT_PRICING];
     return {
       type: "chat",
       pricing: {
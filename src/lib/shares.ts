@@ -0,0 +1,223 @@
+import { randomBytes } from "crypto";
+import { ConversationShare } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getConversationExport } from "@/lib/conversations";
+import { getActiveMessages } from "@/lib/export";
+import { getTemplateById } from "@/lib/templates";
+import {
+  ConversationShareSummary,
+  CreateShareRequest,
+  SharedConversation,
+  SharedMessage,
+  SharedTemplate,
+} from "@/types";
+
+/**
+ * Public read-only share links
+ *
+ * A share stores a snapshot of the active branch taken when it's created,
+ * with redactions and hidden template variables already applied, so the
+ * public page never reads the live conversation. The snapshot holds
+ * message text, times, models and template names only: nothing about the
+ * owner or their usage.
+ */
+
+// 32 random bytes: unguessable, and URL-safe as base64url
+const TOKEN_BYTES = 32;
+
+/**
+ * Thrown when a share can't be created as asked
+ */
+export class ShareRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareRequestError";
+  }
+}
+
+const createShareToken = (): string =>
+  randomBytes(TOKEN_BYTES).toString("base64url");
+
+const isSharedTemplate = (value: unknown): value is SharedTemplate => {
+  const template = value as SharedTemplate;
+  return (
+    typeof template === "object" &&
+    template !== null &&
+    typeof template.name === "string" &&
+    (template.variables === undefined ||
+      (typeof template.variables === "object" &&
+        template.variables !== null &&
+        !Array.isArray(template.variables)))
+  );
+};
+
+const isSharedMessage = (value: unknown): value is SharedMessage => {
+  const message = value as SharedMessage;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    (message.role === "user" || message.role === "assistant") &&
+    (message.content === null || typeof message.content === "string") &&
+    typeof message.timestamp === "string" &&
+    (message.model === undefined || typeof message.model === "string") &&
+    (message.templates === undefined ||
+      (Array.isArray(message.templates) &&
+        message.templates.every(isSharedTemplate)))
+  );
+};
+
+/**
+ * Check a share's stored snapshot, since it's read back from a JSON column
+ */
+const isSharedConversation = (value: unknown): value is SharedConversation => {
+  const conversation = value as SharedConversation;
+  return (
+    typeof conversation === "object" &&
+    conversation !== null &&
+    (conversation.title === null || typeof conversation.title === "string") &&
+    typeof conversation.sharedAt === "string" &&
+    Array.isArray(conversation.messages) &&
+    conversation.messages.every(isSharedMessage)
+  );
+};
+
+/**
+ * Share a conversation's active branch as it is now
+ * Returns null if the conversation doesn't exist or isn't the user's.
+ * Throws ShareRequestError when a message to redact isn't on the branch,
+ * so nothing is shared that the user meant to hold back.
+ */
+export async function createConversationShare(
+  userId: string,
+  conversationId: string,
+  {
+    expiresAt = null,
+    hideTemplateVariables = false,
+    redactedMessageIds = [],
+  }: CreateShareRequest
+): Promise<ConversationShare | null> {
+  const conversation = await getConversationExport(userId, conversationId);
+  if (!conversation) {
+    return null;
+  }
+
+  const expiry = expiresAt === null ? null : new Date(expiresAt);
+  if (expiry && (Number.isNaN(expiry.getTime()) || expiry <= new Date())) {
+    throw new ShareRequestError("expiresAt must be a time in the future");
+  }
+
+  const branch = getActiveMessages(conversation);
+  const redacted = new Set(redactedMessageIds);
+  const onBranch = new Set(branch.map((message) => message.id));
+  if (Array.from(redacted).some((id) => !onBranch.has(id))) {
+    throw new ShareRequestError(
+      "Messages to redact must be on the conversation's active branch"
+    );
+  }
+
+  // Template variables often repeat a redacted message's text, so
+  // redacted messages keep no templates at all
+  const messages = branch.map((message): SharedMessage => {
+    const templates = redacted.has(message.id) ? [] : message.templates;
+    return {
+      role: message.role,
+      content: redacted.has(message.id) ? null : message.content,
+      timestamp: message.timestamp,
+      ...(message.model && { model: message.model }),
+      ...(templates?.length && {
+        templates: templates.map(({ templateId, variables }) => ({
+          name: getTemplateById(templateId)?.name ?? templateId,
+          ...(!hideTemplateVariables &&
+            variables &&
+            Object.keys(variables).length > 0 && { variables }),
+        })),
+      }),
+    };
+  });
+  const snapshot: SharedConversation = {
+    title: conversation.title,
+    sharedAt: new Date().toISOString(),
+    messages,
+  };
+
+  return prisma.conversationShare.create({
+    data: {
+      token: createShareToken(),
+      conversationId,
+      userId,
+      snapshot,
+      hideTemplateVariables,
+      redactedMessages: redacted.size,
+      expiresAt: expiry,
+    },
+  });
+}
+
+/**
+ * A conversation's share links, newest first
+ */
+export const listConversationShares = (
+  userId: string,
+  conversationId: string
+) =>
+  prisma.conversationShare.findMany({
+    where: { conversationId, userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+/**
+ * Revoke a share link; the public page stops working straight away
+ * Returns false when the user has no active share with that ID
+ */
+export async function revokeConversationShare(
+  userId: string,
+  conversationId: string,
+  shareId: string
+): Promise<boolean> {
+  const { count } = await prisma.conversationShare.updateMany({
+    where: { id: shareId, conversationId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * The snapshot behind a share link, or null if the link is unknown,
+ * revoked or expired (or its snapshot is malformed)
+ */
+export async function getSharedConversation(
+  token: string
+): Promise<SharedConversation | null> {
+  const share = await prisma.conversationShare.findUnique({
+    where: { token },
+    select: { snapshot: true, expiresAt: true, revokedAt: true },
+  });
+  if (
+    !share ||
+    share.revokedAt ||
+    (share.expiresAt && share.expiresAt <= new Date())
+  ) {
+    return null;
+  }
+  if (!isSharedConversation(share.snapshot)) {
+    console.error("Share link has a malformed snapshot");
+    return null;
+  }
+  return share.snapshot;
+}
+
+/**
+ * A share link as returned to its owner
+ */
+export const toShareSummary = (
+  share: ConversationShare
+): ConversationShareSummary => ({
+  id: share.id,
+  token: share.token,
+  conversationId: share.conversationId,
+  hideTemplateVariables: share.hideTemplateVariables,
+  redactedMessages: share.redactedMessages,
+  expiresAt: share.expiresAt?.toISOString() ?? null,
+  revokedAt: share.revokedAt?.toISOString() ?? null,
+  createdAt: share.createdAt.toISOString(),
+});
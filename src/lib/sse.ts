@@ -0,0 +1,53 @@
+import { ChatStreamEvent } from "@/types";
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a chat stream event as a Server-Sent Events frame
+ */
+export function encodeSSEEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Parse a Server-Sent Events body into JSON events (chat stream events by default)
+ * Frames are separated by a blank line; only `data:` lines are read
+ */
+export async function* parseSSEStream<T = ChatStreamEvent>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Normalise CRLF framing so the blank-line split works for any server
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(
+        /\r\n/g,
+        "\n"
+      );
+
+      let separatorIndex;
+      while ((separatorIndex = buffer.indexOf("\n\n")) !== -1) {
+        const frame = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+
+        if (data) {
+          yield JSON.parse(data) as T;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,279 @@
+import {
+  ChatProvider,
+  CompletionAttempt,
+  CompletionResult,
+  ProviderMessage,
+  TokenUsage,
+} from "@/lib/chatProviders";
+import { logChatCompletion } from "@/lib/costTracking";
+import { estimateTokenUsage } from "@/lib/tokenEstimator";
+import { JsonSchema } from "@/types";
+
+/**
+ * Structured (JSON) replies for templates that declare an output schema
+ *
+ * The schema is put in the prompt and the provider's JSON mode is used
+ * where it has one. Replies are parsed and validated here; an invalid reply
+ * is sent back to the model with the validation errors for a repair.
+ */
+
+// Repair attempts after the first reply before giving up
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Thrown when the model's reply still doesn't match the schema after every
+ * repair attempt
+ */
+export class StructuredOutputError extends Error {
+  constructor(public readonly validationErrors: string[]) {
+    super(
+      `Model reply did not match the output schema: ${validationErrors.join(
+        "; "
+      )}`
+    );
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * System prompt text asking for schema-conforming JSON
+ */
+export function buildSchemaInstruction(schema: JsonSchema): string {
+  return (
+    "Reply with a single JSON value that conforms to this JSON Schema, " +
+    "with no explanations and no code fences:\n" +
+    JSON.stringify(schema, null, 2)
+  );
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  // Integers are numbers too
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+/**
+ * Validate a value against the supported JSON schema subset
+ * Returns one message per problem, prefixed with the value's path
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path} should be ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as never)) {
+    return [
+      `${path} should be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`,
+    ];
+  }
+
+  const errors: string[] = [];
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateAgainstSchema(item, property, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)
+      );
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a reply as JSON, tolerating code fences and text around the value
+ */
+export function parseJsonReply(
+  reply: string
+): { ok: true; value: unknown } | { ok: false; error: string } {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : reply).trim();
+
+  const candidates = [text];
+  // Fall back to the outermost object or array in the text
+  for (const [open, close] of [
+    ["{", "}"],
+    ["[", "]"],
+  ]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start >= 0 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return { ok: false, error: "Reply is not valid JSON" };
+}
+
+/**
+ * Options for a completion that must return schema-conforming JSON
+ */
+export interface StructuredCompletionOptions {
+  provider: ChatProvider;
+  model: string;
+  /** Prompt, already carrying the schema instruction */
+  messages: ProviderMessage[];
+  schema: JsonSchema;
+  temperature?: number;
+  maxTokens?: number;
+  userId?: string;
+  conversationId?: string;
+  /** Aborts the attempt in progress; the result is then marked cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Validated reply of a structured completion
+ */
+export interface StructuredCompletionResult {
+  /** The parsed value, re-serialised */
+  content: string;
+  data: unknown;
+  /** Model that wrote the accepted reply */
+  model: string;
+  /** Provider attempts behind the accepted reply */
+  attempts?: CompletionAttempt[];
+  /** Usage of the accepted attempt; rejected ones are logged here */
+  usage?: TokenUsage;
+  /** Cost of the rejected attempts */
+  repairCost: number;
+  /** Replies requested, including the accepted one */
+  replies: number;
+  /**
+   * Set when the signal aborted an attempt; there is no data, and usage is
+   * an estimate of the aborted attempt's prompt
+   */
+  cancelled?: boolean;
+}
+
+/**
+ * Complete, then validate the reply against the schema, asking the model to
+ * repair it up to MAX_REPAIR_ATTEMPTS times
+ * Rejected attempts are logged here; the caller logs the accepted one with
+ * the rest of the exchange.
+ */
+export async function completeStructured(
+  options: StructuredCompletionOptions
+): Promise<StructuredCompletionResult> {
+  const { provider, model, schema, userId, conversationId } = options;
+  const messages = [...options.messages];
+  let repairCost = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    let completion: CompletionResult;
+    try {
+      completion = await provider.complete({
+        model,
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        responseSchema: schema,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        throw error;
+      }
+      return {
+        content: "",
+        data: undefined,
+        model,
+        usage: estimateTokenUsage(messages, "", model),
+        repairCost,
+        replies: attempt,
+        cancelled: true,
+      };
+    }
+
+    const parsed = parseJsonReply(completion.content);
+    const errors = parsed.ok
+      ? validateAgainstSchema(parsed.value, schema)
+      : [parsed.error];
+
+    if (parsed.ok && errors.length === 0) {
+      return {
+        content: JSON.stringify(parsed.value, null, 2),
+        data: parsed.value,
+        model: completion.model,
+        attempts: completion.attempts,
+        usage: completion.usage,
+        repairCost,
+        replies: attempt,
+      };
+    }
+
+    // Log the rejected attempt (only for authenticated users)
+    if (completion.usage && userId) {
+      repairCost += await logChatCompletion(
+        completion.model,
+        completion.usage.inputTokens,
+        completion.usage.outputTokens,
+        {
+          userId,
+          conversationId,
+          service: provider.service,
+          metadata: {
+            purpose: "structured-output-repair",
+            attempt,
+            ...(completion.attempts && { attempts: completion.attempts }),
+          },
+        }
+      );
+    }
+
+    if (attempt > MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError(errors);
+    }
+
+    messages.push(
+      { role: "assistant", content: completion.content },
+      {
+        role: "user",
+        content:
+          "That reply does not match the schema:\n" +
+          errors.map((error) => `- ${error}`).join("\n") +
+          "\nReply again with only the corrected JSON.",
+      }
+    );
+  }
+}
@@ -1,11 +1,28 @@
 import {
+  ComposedTemplateResult,
+  JsonSchema,
   PromptTemplate,
   TemplateVariables,
   TemplateResult,
   TemplateEngine,
+  TemplateStackEntry,
   TemplateVariable,
+  TemplateVariableConflict,
 } from "@/types/templates";
 
+/**
+ * A stack of templates that can't be composed into one prompt
+ */
+export class TemplateCompositionError extends Error {
+  readonly conflicts: TemplateVariableConflict[];
+
+  constructor(message: string, conflicts: TemplateVariableConflict[] = []) {
+    super(message);
+    this.name = "TemplateCompositionError";
+    this.conflicts = conflicts;
+  }
+}
+
 /**
  * Template engine for rendering prompt templates with variable substitution
  */
@@ -140,6 +157,102 @@ export class PromptTemplateEngine implements TemplateEngine {
     return defaults;
   }
 
+  /**
+   * Get the JSON schema replies must match, if the template declares one
+   */
+  getOutputSchema(
+    template: PromptTemplate,
+    variables: TemplateVariables
+  ): JsonSchema | undefined {
+    return typeof template.outputSchema === "function"
+      ? template.outputSchema(variables)
+      : template.outputSchema;
+  }
+
+  /**
+   * Render an ordered stack of templates into one system prompt, each
+   * with its own variables and separated by blank lines
+   * Throws a TemplateCompositionError when a template repeats, more than
+   * one declares an output schema, or variables conflict
+   */
+  compose(stack: TemplateStackEntry[]): ComposedTemplateResult {
+    const templateIds = stack.map(({ template }) => template.id);
+    const repeated = templateIds.filter(
+      (id, index) => templateIds.indexOf(id) !== index
+    );
+    if (repeated.length > 0) {
+      throw new TemplateCompositionError(
+        `Template used more than once: ${[...new Set(repeated)].join(", ")}`
+      );
+    }
+
+    const conflicts = this.findVariableConflicts(stack);
+    if (conflicts.length > 0) {
+      throw new TemplateCompositionError(
+        `Conflicting values for ${conflicts
+          .map(({ name, templateIds }) => `${name} (${templateIds.join(", ")})`)
+          .join("; ")}`,
+        conflicts
+      );
+    }
+
+    const schemas = stack
+      .map(({ template, variables }) => ({
+        templateId: template.id,
+        schema: this.getOutputSchema(template, variables),
+      }))
+      .filter(({ schema }) => schema !== undefined);
+    if (schemas.length > 1) {
+      throw new TemplateCompositionError(
+        `Only one template can declare an output schema: ${schemas
+          .map(({ templateId }) => templateId)
+          .join(", ")}`
+      );
+    }
+
+    const content = stack
+      .map(({ template, variables }) =>
+        this.render(template, this.mergeWithDefaults(template, variables))
+          .content
+      )
+      .join("\n\n");
+
+    return { content, templateIds, outputSchema: schemas[0]?.schema };
+  }
+
+  /**
+   * Find variable names declared by more than one template in a stack
+   * The model sees a single prompt, so a shared name is only fine when
+   * every template gives it the same value
+   */
+  findVariableConflicts(
+    stack: TemplateStackEntry[]
+  ): TemplateVariableConflict[] {
+    const declared = new Map<
+      string,
+      Array<{ templateId: string; value: TemplateVariables[string] }>
+    >();
+    for (const { template, variables } of stack) {
+      const merged = this.mergeWithDefaults(template, variables);
+      for (const variable of template.variables) {
+        const uses = declared.get(variable.name) ?? [];
+        uses.push({ templateId: template.id, value: merged[variable.name] });
+        declared.set(variable.name, uses);
+      }
+    }
+
+    const conflicts: TemplateVariableConflict[] = [];
+    for (const [name, uses] of declared) {
+      if (uses.some(({ value }) => value !== uses[0].value)) {
+        conflicts.push({
+          name,
+          templateIds: uses.map(({ templateId }) => templateId),
+        });
+      }
+    }
+    return conflicts;
+  }
+
   /**
    * Merge user variables with defaults
    */
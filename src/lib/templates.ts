@@ -1,4 +1,50 @@
-import { PromptTemplate, TemplateCategory } from "@/types/templates";
+import {
+  JsonSchema,
+  PromptTemplate,
+  TemplateCategory,
+  TemplateSelection,
+  TemplateVariables,
+} from "@/types/templates";
+
+/**
+ * Split a comma-separated field list, dropping empty entries
+ */
+const parseFieldList = (value: TemplateVariables[string]): string[] =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((field) => field.trim())
+        .filter(Boolean)
+    : [];
+
+/**
+ * Output schema for the data-extraction template
+ * Only JSON output is structured; fields missing from the text are null
+ */
+const buildExtractionSchema = (
+  variables: TemplateVariables
+): JsonSchema | undefined => {
+  if (variables.output_format !== "JSON") {
+    return undefined;
+  }
+
+  const required = parseFieldList(variables.required_fields);
+  const optional = parseFieldList(variables.optional_fields).filter(
+    (field) => !required.includes(field)
+  );
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const field of [...required, ...optional]) {
+    properties[field] = { type: ["string", "null"] };
+  }
+
+  return {
+    type: "object",
+    properties,
+    required,
+    additionalProperties: false,
+  };
+};
 
 /**
  * Predefined prompt templates library
@@ -165,6 +211,7 @@ Please extract the data and format it as requested:`,
         options: ["JSON", "CSV", "XML", "YAML"],
       },
     ],
+    outputSchema: buildExtractionSchema,
     version: "1.0.0",
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
@@ -326,6 +373,25 @@ export function getTemplatesByCategory(
   );
 }
 
+/**
+ * Check the shape of one entry of a template stack, e.g. from a request
+ * or a stored reply
+ */
+export function isTemplateSelection(
+  value: unknown
+): value is TemplateSelection {
+  const selection = value as TemplateSelection;
+  return (
+    typeof selection === "object" &&
+    selection !== null &&
+    typeof selection.templateId === "string" &&
+    (selection.variables === undefined ||
+      (typeof selection.variables === "object" &&
+        selection.variables !== null &&
+        !Array.isArray(selection.variables)))
+  );
+}
+
 /**
  * Get template by ID
  */
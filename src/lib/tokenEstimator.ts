@@ -0,0 +1,170 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import {
+  calculateChatCompletionCost,
+  calculateEmbeddingCost,
+  calculateVectorStoreCost,
+} from "@/lib/pricing";
+
+/**
+ * Token counting and pre-flight cost estimation
+ *
+ * Counts use OpenAI's tokenizers. Other vendors tokenize differently, so
+ * their counts are approximated with cl100k_base plus a safety margin;
+ * the estimate is meant to be a worst case for limit checks, not a bill.
+ */
+
+type EncodingName = "cl100k_base" | "o200k_base";
+
+// Overhead OpenAI adds per chat message and for priming the reply
+// (see the OpenAI cookbook's "How to count tokens" guide)
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Non-OpenAI tokenizers usually produce more tokens than cl100k_base
+const APPROXIMATE_COUNT_MARGIN = 1.2;
+
+// Encoders are expensive to build, so each is created once per process
+const encoders = new Map<EncodingName, Tiktoken>();
+
+const getEncoder = (name: EncodingName): Tiktoken => {
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = new Tiktoken(name === "o200k_base" ? o200k_base : cl100k_base);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+};
+
+/**
+ * Pick the tokenizer for a model; null when we can only approximate
+ */
+const getEncodingForModel = (model: string): EncodingName | null => {
+  if (model.startsWith("gpt-4o") || /^o\d/.test(model)) {
+    return "o200k_base";
+  }
+  if (model.startsWith("gpt-") || model.startsWith("text-embedding-")) {
+    return "cl100k_base";
+  }
+  return null;
+};
+
+/**
+ * Count the tokens in a piece of text for a model
+ */
+export function countTokens(text: string, model: string): number {
+  const encoding = getEncodingForModel(model);
+  if (encoding) {
+    return getEncoder(encoding).encode(text).length;
+  }
+
+  const approximate = getEncoder("cl100k_base").encode(text).length;
+  return Math.ceil(approximate * APPROXIMATE_COUNT_MARGIN);
+}
+
+/**
+ * Count the prompt tokens of a chat request, including per-message overhead
+ */
+export function countMessageTokens(
+  messages: Array<{ role: string; content: string }>,
+  model: string
+): number {
+  return (
+    messages.reduce(
+      (total, message) =>
+        total +
+        TOKENS_PER_MESSAGE +
+        countTokens(message.role, model) +
+        countTokens(message.content, model),
+      0
+    ) + TOKENS_PER_REPLY
+  );
+}
+
+/**
+ * Usage of a completion the provider never reported, e.g. one that was
+ * cancelled mid-stream: the prompt plus whatever was generated
+ */
+export function estimateTokenUsage(
+  messages: Array<{ role: string; content: string }>,
+  reply: string,
+  model: string
+): { inputTokens: number; outputTokens: number; totalTokens: number } {
+  const inputTokens = countMessageTokens(messages, model);
+  const outputTokens = countTokens(reply, model);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Inputs for a worst-case estimate of one chat request
+ */
+export interface RequestCostEstimateInput {
+  model: string;
+  service: string;
+  messages: Array<{ role: string; content: string }>;
+  /** Tool definitions sent with the prompt */
+  tools?: Array<{ name: string; description: string; parameters: unknown }>;
+  /** Output bound sent to the provider; the reply can't be longer */
+  maxTokens: number;
+  /** The user's message; embedded for RAG retrieval and storage */
+  message: string;
+  embeddingModel?: string;
+  embeddingService?: string;
+  /** Vector store service, when RAG retrieval and storage will run */
+  vectorStoreService?: string;
+}
+
+/**
+ * Breakdown of a pre-flight estimate
+ */
+export interface RequestCostEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  embeddingTokens: number;
+  cost: number;
+}
+
+/**
+ * Estimate the most a chat request can cost
+ * Counts the fully assembled prompt and assumes the reply uses all of
+ * maxTokens; with RAG on, adds the query embedding, both storage
+ * embeddings, one vector query and two upserts
+ */
+export function estimateRequestCost(
+  input: RequestCostEstimateInput
+): RequestCostEstimate {
+  // Tool definitions are billed as prompt tokens; their JSON is a close
+  // stand-in for how providers render them
+  const inputTokens =
+    countMessageTokens(input.messages, input.model) +
+    (input.tools?.length
+      ? countTokens(JSON.stringify(input.tools), input.model)
+      : 0);
+  const outputTokens = input.maxTokens;
+
+  let cost = calculateChatCompletionCost(
+    input.model,
+    inputTokens,
+    outputTokens,
+    input.service
+  );
+
+  let embeddingTokens = 0;
+  if (input.vectorStoreService && input.embeddingModel) {
+    const messageTokens = countTokens(input.message, input.embeddingModel);
+    // Query + storage of the message, then storage of the reply
+    embeddingTokens = messageTokens * 2 + outputTokens;
+
+    cost +=
+      calculateEmbeddingCost(
+        input.embeddingModel,
+        embeddingTokens,
+        input.embeddingService
+      ) +
+      calculateVectorStoreCost(input.vectorStoreService, "query") +
+      calculateVectorStoreCost(input.vectorStoreService, "upsert") * 2;
+  }
+
+  return { inputTokens, outputTokens, embeddingTokens, cost };
+}
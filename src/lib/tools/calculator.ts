@@ -0,0 +1,203 @@
+import { ChatTool } from "./types";
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "identifier"; name: string }
+  | { type: "operator"; value: string };
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+// Keeps pathological input from tying up the request
+const MAX_EXPRESSION_LENGTH = 500;
+
+/**
+ * Split an expression into numbers, names and operators
+ */
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/giy;
+
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < expression.length) {
+    const start = pattern.lastIndex;
+    match = pattern.exec(expression);
+    if (!match) {
+      const rest = expression.slice(start);
+      if (rest.trim() === "") break;
+      const offset = start + rest.length - rest.trimStart().length;
+      throw new Error(`Unexpected character at position ${offset + 1}`);
+    }
+    if (match[1] !== undefined) {
+      tokens.push({ type: "number", value: parseFloat(match[1]) });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: "identifier", name: match[2].toLowerCase() });
+    } else if (match[3] !== undefined) {
+      tokens.push({
+        type: "operator",
+        value: match[3] === "**" ? "^" : match[3],
+      });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Evaluate an arithmetic expression without eval()
+ * Recursive descent over: + - * / % ^, parentheses, unary minus, the
+ * constants pi and e, and a fixed set of Math functions
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error("Expression is too long");
+  }
+
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (value: string): boolean => {
+    const token = peek();
+    return token?.type === "operator" && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!isOperator(value)) {
+      throw new Error(`Expected "${value}"`);
+    }
+    position++;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOperator("+") || isOperator("-")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = parseTerm();
+      value = operator === "+" ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOperator("*") || isOperator("/") || isOperator("%")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      const right = parseUnary();
+      if (operator === "*") value *= right;
+      else if (operator === "/") value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOperator("-")) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOperator("+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative, binds tighter than unary minus on its left
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOperator("^")) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error("Unexpected end of expression");
+    }
+
+    if (token.type === "number") {
+      return token.value;
+    }
+
+    if (token.type === "operator" && token.value === "(") {
+      const value = parseExpression();
+      expect(")");
+      return value;
+    }
+
+    if (token.type === "identifier") {
+      if (token.name in CONSTANTS) {
+        return CONSTANTS[token.name];
+      }
+      const fn = FUNCTIONS[token.name];
+      if (!fn) {
+        throw new Error(`Unknown function or constant: ${token.name}`);
+      }
+      expect("(");
+      const args = [parseExpression()];
+      while (isOperator(",")) {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(")");
+      return fn(...args);
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error("Unexpected input after expression");
+  }
+  return result;
+}
+
+export const calculatorTool: ChatTool<{ expression: string }> = {
+  definition: {
+    name: "calculator",
+    description:
+      "Evaluate an arithmetic expression exactly. Supports + - * / % ^, " +
+      "parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, " +
+      "ln, log (base 10), exp, min, max, pow.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: {
+          type: "string",
+          description: 'The expression to evaluate, e.g. "(3 + 4) * 2^3"',
+        },
+      },
+      required: ["expression"],
+    },
+  },
+  execute: async ({ expression }) => {
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) {
+      throw new Error("Result is not a finite number");
+    }
+    return String(result);
+  },
+};
@@ -0,0 +1,34 @@
+import { ChatTool } from "./types";
+
+export const dateTimeTool: ChatTool<{ timeZone?: string }> = {
+  definition: {
+    name: "current_datetime",
+    description:
+      "Get the current date and time, optionally in a given IANA time zone.",
+    parameters: {
+      type: "object",
+      properties: {
+        timeZone: {
+          type: "string",
+          description: 'IANA time zone, e.g. "Europe/Belgrade". Defaults to UTC.',
+        },
+      },
+    },
+  },
+  execute: async ({ timeZone = "UTC" }) => {
+    const now = new Date();
+
+    let formatted: string;
+    try {
+      formatted = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        dateStyle: "full",
+        timeStyle: "long",
+      }).format(now);
+    } catch {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    return JSON.stringify({ iso: now.toISOString(), timeZone, formatted });
+  },
+};
@@ -0,0 +1,11 @@
+export type { ChatTool, ToolContext } from "./types";
+export {
+  areToolsEnabled,
+  executeToolCall,
+  getAvailableTools,
+} from "./registry";
+export {
+  runToolLoop,
+  RESERVED_TOOL_ROUNDS,
+  MAX_TOOL_ITERATIONS,
+} from "./runner";
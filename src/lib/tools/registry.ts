@@ -0,0 +1,109 @@
+import { ToolCall, ToolDefinition } from "@/lib/chatProviders";
+import { calculatorTool } from "./calculator";
+import { dateTimeTool } from "./dateTime";
+import { searchConversationsTool } from "./searchConversations";
+import { ChatTool, ToolContext } from "./types";
+
+/**
+ * Register a tool, erasing its argument type
+ * Arguments are checked against the tool's schema before execute runs, so
+ * the registry can hold tools with different argument types; each tool
+ * still type-checks against its own.
+ */
+const defineTool = <TArgs>(tool: ChatTool<TArgs>): ChatTool => ({
+  ...tool,
+  execute: (args, context) => tool.execute(args as TArgs, context),
+});
+
+const TOOLS: ChatTool[] = [
+  defineTool(calculatorTool),
+  defineTool(dateTimeTool),
+  defineTool(searchConversationsTool),
+];
+
+type SchemaProperty = { type?: string };
+
+/**
+ * Check whether tools are enabled (CHAT_TOOLS=off disables them, e.g. for
+ * self-hosted models without function calling)
+ */
+export const areToolsEnabled = (): boolean =>
+  process.env.CHAT_TOOLS?.toLowerCase() !== "off";
+
+/**
+ * Tools offered for a request
+ */
+export const getAvailableTools = (context: ToolContext): ChatTool[] =>
+  areToolsEnabled()
+    ? TOOLS.filter((tool) => tool.isAvailable?.(context) ?? true)
+    : [];
+
+/**
+ * Check parsed arguments against a tool's schema
+ * Covers what our tools use: an object with required keys and primitive
+ * property types
+ */
+const validateToolArguments = (
+  definition: ToolDefinition,
+  args: unknown
+): Record<string, unknown> => {
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    throw new Error("Arguments must be a JSON object");
+  }
+
+  const values = args as Record<string, unknown>;
+  const properties = (definition.parameters.properties ?? {}) as Record<
+    string,
+    SchemaProperty
+  >;
+  const required = (definition.parameters.required ?? []) as string[];
+
+  for (const key of required) {
+    if (values[key] === undefined || values[key] === null) {
+      throw new Error(`Missing required argument: ${key}`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const expected = properties[key]?.type;
+    if (!expected || value === undefined || value === null) {
+      continue;
+    }
+    const valid =
+      expected === "integer"
+        ? Number.isInteger(value)
+        : expected === "number"
+        ? typeof value === "number"
+        : typeof value === expected;
+    if (!valid) {
+      throw new Error(`Argument ${key} must be of type ${expected}`);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Run one tool call and return the text for the model
+ * Failures are returned as text too, so the model can correct itself
+ */
+export const executeToolCall = async (
+  call: ToolCall,
+  tools: ChatTool[],
+  context: ToolContext
+): Promise<string> => {
+  const tool = tools.find((candidate) => candidate.definition.name === call.name);
+  if (!tool) {
+    return `Error: unknown tool "${call.name}"`;
+  }
+
+  try {
+    const args = validateToolArguments(
+      tool.definition,
+      call.arguments ? JSON.parse(call.arguments) : {}
+    );
+    return await tool.execute(args, context);
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : "Tool failed"}`;
+  }
+};
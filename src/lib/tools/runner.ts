@@ -0,0 +1,301 @@
+import {
+  ChatProvider,
+  CompletionAttempt,
+  CompletionRequest,
+  CompletionStreamChunk,
+  ProviderMessage,
+  TokenUsage,
+  ToolCall,
+} from "@/lib/chatProviders";
+import { logChatCompletion } from "@/lib/costTracking";
+import { calculateChatCompletionCost } from "@/lib/pricing";
+import {
+  countMessageTokens,
+  countTokens,
+  estimateTokenUsage,
+} from "@/lib/tokenEstimator";
+import { executeToolCall } from "./registry";
+import { ChatTool, ToolContext } from "./types";
+
+// Tool rounds allowed before the model must answer
+export const MAX_TOOL_ITERATIONS = 5;
+
+// Tool rounds reserved for up front, on top of the answer; each is costed
+// like a full request, since every round resends the prompt
+export const RESERVED_TOOL_ROUNDS = 2;
+
+// Between the text of successive rounds in the reply
+const ROUND_SEPARATOR = "\n\n";
+
+/**
+ * Options for a completion that may call tools
+ */
+export interface ToolLoopOptions {
+  provider: ChatProvider;
+  model: string;
+  messages: ProviderMessage[];
+  tools: ChatTool[];
+  context: ToolContext;
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Most the loop may spend, final round included, in USD. Tools are only
+   * offered while this round and an answer after it fit in what's left
+   */
+  costBudget?: number;
+  /**
+   * Models a round may be billed to (the requested one and its fallbacks);
+   * rounds are projected at the priciest. Defaults to model
+   */
+  pricedModels?: string[];
+  /** Streams each round's tokens when set */
+  onToken?: (token: string) => void;
+  /** Aborts the round in progress; the loop then returns what it has */
+  signal?: AbortSignal;
+}
+
+/**
+ * Final answer of a tool loop
+ */
+export interface ToolLoopResult {
+  /** Text of every round, so the stored reply matches what was streamed */
+  content: string;
+  /** Model that wrote the final round; a fallback if the requested one failed */
+  model: string;
+  /** Provider attempts behind the final round */
+  attempts?: CompletionAttempt[];
+  /**
+   * Usage of the final round; earlier rounds are logged by the loop
+   * Estimated when the round was cancelled before the provider reported it
+   */
+  usage?: TokenUsage;
+  /** Cost of the tool rounds before the final one */
+  toolCost: number;
+  rounds: number;
+  /** Set when the signal aborted the final round; content is partial */
+  cancelled?: boolean;
+}
+
+interface RoundResult {
+  content: string;
+  model?: string;
+  attempts?: CompletionAttempt[];
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+  cancelled?: boolean;
+}
+
+/**
+ * Drain a streaming completion, forwarding tokens as they arrive
+ * If the signal aborts it, the tokens received so far are returned
+ */
+const collectStream = async (
+  stream: AsyncIterable<CompletionStreamChunk>,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<RoundResult> => {
+  const result: RoundResult = { content: "" };
+  try {
+    for await (const chunk of stream) {
+      switch (chunk.type) {
+        case "attempts":
+          result.model = chunk.model;
+          result.attempts = chunk.attempts;
+          break;
+        case "token":
+          result.content += chunk.content;
+          onToken(chunk.content);
+          break;
+        case "tool_calls":
+          result.toolCalls = chunk.toolCalls;
+          break;
+        case "usage":
+          result.usage = chunk.usage;
+          break;
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+    result.cancelled = true;
+  }
+  return result;
+};
+
+/**
+ * Run a non-streaming completion; an aborted one comes back empty
+ */
+const completeRound = async (
+  provider: ChatProvider,
+  request: CompletionRequest
+): Promise<RoundResult> => {
+  try {
+    return await provider.complete(request);
+  } catch (error) {
+    if (!request.signal?.aborted) {
+      throw error;
+    }
+    return { content: "", cancelled: true };
+  }
+};
+
+/**
+ * Most a round with this prompt can cost: the full prompt plus a reply
+ * of maxTokens, at the priciest model it may be billed to
+ */
+const projectRoundCost = (
+  options: ToolLoopOptions,
+  messages: ProviderMessage[]
+): number => {
+  const { provider, model, tools, maxTokens = 0 } = options;
+  const definitions = JSON.stringify(tools.map((tool) => tool.definition));
+  return Math.max(
+    ...(options.pricedModels ?? [model]).map((candidate) =>
+      calculateChatCompletionCost(
+        candidate,
+        countMessageTokens(messages, candidate) +
+          countTokens(definitions, candidate),
+        maxTokens,
+        provider.service
+      )
+    )
+  );
+};
+
+/**
+ * Run a completion, executing requested tools until the model answers
+ * Stops offering tools after MAX_TOOL_ITERATIONS rounds, or once another
+ * tool round and the answer after it could go over costBudget. Every
+ * round except the final one is logged here; the caller logs the final
+ * round with the rest of the exchange.
+ */
+export async function runToolLoop(
+  options: ToolLoopOptions
+): Promise<ToolLoopResult> {
+  const { provider, model, tools, context, onToken, costBudget, signal } =
+    options;
+  const definitions = tools.map((tool) => tool.definition);
+  const messages = [...options.messages];
+  let toolCost = 0;
+  // Text of the rounds before this one, as the client has seen it
+  let earlierText = "";
+  const withEarlierText = (content: string) =>
+    earlierText && content
+      ? `${earlierText}${ROUND_SEPARATOR}${content}`
+      : earlierText || content;
+
+  for (let round = 1; ; round++) {
+    // The round after a tool round resends a longer prompt, so it's
+    // projected at least as dear as this one
+    const allowTools =
+      definitions.length > 0 &&
+      round <= MAX_TOOL_ITERATIONS &&
+      (costBudget === undefined ||
+        toolCost + 2 * projectRoundCost(options, messages) <= costBudget);
+
+    const request = {
+      model,
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      // Tools stay defined once used, since the history references them
+      ...(definitions.length > 0 && {
+        tools: definitions,
+        toolChoice: allowTools ? ("auto" as const) : ("none" as const),
+      }),
+      signal,
+    };
+
+    // Rounds are separated in the stream as they are in the stored reply
+    let roundStarted = false;
+    const forwardToken = onToken
+      ? (token: string) => {
+          if (!roundStarted && earlierText) {
+            onToken(ROUND_SEPARATOR);
+          }
+          roundStarted = true;
+          onToken(token);
+        }
+      : undefined;
+
+    const result = forwardToken
+      ? await collectStream(
+          provider.streamComplete(request),
+          forwardToken,
+          signal
+        )
+      : await completeRound(provider, request);
+
+    // Usage is billed to the model that answered
+    const answeredBy = result.model ?? model;
+
+    if (result.cancelled) {
+      // The prompt was sent and some of the reply may have been generated,
+      // so bill an estimate rather than nothing
+      return {
+        content: withEarlierText(result.content),
+        model: answeredBy,
+        attempts: result.attempts,
+        usage:
+          result.usage ??
+          estimateTokenUsage(messages, result.content, answeredBy),
+        toolCost,
+        rounds: round,
+        cancelled: true,
+      };
+    }
+
+    if (!allowTools || !result.toolCalls?.length) {
+      return {
+        content: withEarlierText(result.content),
+        model: answeredBy,
+        attempts: result.attempts,
+        usage: result.usage,
+        toolCost,
+        rounds: round,
+      };
+    }
+
+    // Log the tool round; anonymous usage isn't logged but still counts
+    // against the budget
+    if (result.usage) {
+      toolCost += context.userId
+        ? await logChatCompletion(
+            answeredBy,
+            result.usage.inputTokens,
+            result.usage.outputTokens,
+            {
+              userId: context.userId,
+              conversationId: context.conversationId,
+              service: provider.service,
+              metadata: {
+                purpose: "tool-round",
+                round,
+                ...(result.attempts && { attempts: result.attempts }),
+              },
+            }
+          )
+        : calculateChatCompletionCost(
+            answeredBy,
+            result.usage.inputTokens,
+            result.usage.outputTokens,
+            provider.service
+          );
+    }
+
+    earlierText = withEarlierText(result.content);
+    messages.push({
+      role: "assistant",
+      content: result.content,
+      toolCalls: result.toolCalls,
+    });
+    for (const call of result.toolCalls) {
+      messages.push({
+        role: "tool",
+        toolCallId: call.id,
+        content: await executeToolCall(call, tools, context),
+      });
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { searchUserMessages } from "@/lib/conversations";
+import { ChatTool } from "./types";
+
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 10;
+// Long messages are cut so results don't flood the context window
+const SNIPPET_LENGTH = 300;
+
+/**
+ * Cut a message down to a snippet around the first match
+ */
+const toSnippet = (content: string, query: string): string => {
+  if (content.length <= SNIPPET_LENGTH) {
+    return content;
+  }
+  const matchIndex = content.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, matchIndex - SNIPPET_LENGTH / 3);
+  const snippet = content.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? "..." : ""}${snippet}${
+    start + SNIPPET_LENGTH < content.length ? "..." : ""
+  }`;
+};
+
+export const searchConversationsTool: ChatTool<{
+  query: string;
+  limit?: number;
+}> = {
+  definition: {
+    name: "search_past_conversations",
+    description:
+      "Search the user's own past conversations for messages containing " +
+      "some text. Use it when the user refers to something discussed before.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Text to look for (case-insensitive)",
+        },
+        limit: {
+          type: "integer",
+          description: `Maximum results, 1-${MAX_RESULTS} (default ${DEFAULT_RESULTS})`,
+        },
+      },
+      required: ["query"],
+    },
+  },
+  // Stored conversations belong to signed-in users only
+  isAvailable: (context) => Boolean(context.userId),
+  execute: async ({ query, limit = DEFAULT_RESULTS }, context) => {
+    if (!context.userId) {
+      throw new Error("Searching conversations requires a signed-in user");
+    }
+    if (!query.trim()) {
+      throw new Error("Query must not be empty");
+    }
+
+    const results = await searchUserMessages(
+      context.userId,
+      query.trim(),
+      Math.min(Math.max(Math.floor(limit), 1), MAX_RESULTS)
+    );
+
+    if (results.length === 0) {
+      return "No matching messages found.";
+    }
+
+    return JSON.stringify(
+      results.map((result) => ({
+        conversationId: result.conversation.id,
+        conversationTitle: result.conversation.title,
+        role: result.role,
+        timestamp: result.timestamp.toISOString(),
+        snippet: toSnippet(result.content, query.trim()),
+      }))
+    );
+  },
+};
@@ -0,0 +1,21 @@
+import { ToolDefinition } from "@/lib/chatProviders";
+
+/**
+ * Who a tool is running for
+ */
+export interface ToolContext {
+  userId?: string;
+  conversationId?: string;
+}
+
+/**
+ * A tool the assistant can call: a JSON-schema definition plus the
+ * server-side handler that runs it
+ */
+export interface ChatTool<TArgs = Record<string, unknown>> {
+  definition: ToolDefinition;
+  /** Offer the tool only when this returns true (defaults to always) */
+  isAvailable?: (context: ToolContext) => boolean;
+  /** Returns the text handed back to the model */
+  execute: (args: TArgs, context: ToolContext) => Promise<string>;
+}
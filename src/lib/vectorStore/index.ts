@@ -0,0 +1,236 @@
+import { prisma } from "@/lib/prisma";
+import { getSharedInMemoryVectorStore } from "./memoryStore";
+import { PgVectorStore } from "./pgvectorStore";
+import { isPineconeConfigured, PineconeVectorStore } from "./pineconeStore";
+import {
+  VectorFilter,
+  VectorMetadata,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+export type { VectorRecord, VectorStore } from "./types";
+
+/**
+ * Available vector store backends, selected with the VECTOR_STORE env var
+ */
+export type VectorStoreBackend = "pinecone" | "pgvector" | "memory" | "none";
+
+const VECTOR_STORE_BACKENDS: VectorStoreBackend[] = [
+  "pinecone",
+  "pgvector",
+  "memory",
+  "none",
+];
+
+// Resolved once per process; undefined means not resolved yet
+let vectorStore: VectorStore | null | undefined;
+
+/**
+ * Resolve the configured backend
+ * Without VECTOR_STORE we use Pinecone when it is configured, otherwise the
+ * in-memory store outside production so dev and CI still exercise RAG
+ */
+export const getVectorStoreBackend = (): VectorStoreBackend => {
+  const configured = process.env.VECTOR_STORE?.toLowerCase();
+
+  if (configured) {
+    if (!VECTOR_STORE_BACKENDS.includes(configured as VectorStoreBackend)) {
+      throw new Error(
+        `Invalid VECTOR_STORE "${configured}". Expected one of: ${VECTOR_STORE_BACKENDS.join(
+          ", "
+        )}`
+      );
+    }
+    return configured as VectorStoreBackend;
+  }
+
+  if (isPineconeConfigured()) {
+    return "pinecone";
+  }
+  return process.env.NODE_ENV === "production" ? "none" : "memory";
+};
+
+/**
+ * Get the configured vector store, or null when RAG is disabled
+ */
+export const getVectorStore = (): VectorStore | null => {
+  if (vectorStore !== undefined) {
+    return vectorStore;
+  }
+
+  switch (getVectorStoreBackend()) {
+    case "pinecone":
+      vectorStore = new PineconeVectorStore();
+      break;
+    case "pgvector":
+      vectorStore = new PgVectorStore();
+      break;
+    case "memory":
+      vectorStore = getSharedInMemoryVectorStore();
+      break;
+    case "none":
+      vectorStore = null;
+      break;
+  }
+
+  return vectorStore;
+};
+
+/**
+ * Override the vector store (tests use this to inject an in-memory store)
+ */
+export const setVectorStore = (store: VectorStore | null): void => {
+  vectorStore = store;
+};
+
+/**
+ * Namespace holding one user's vectors
+ * Keeping users in separate namespaces means a query can never reach
+ * another user's messages, even if a filter is forgotten
+ */
+export const getUserNamespace = (userId: string): string => `user-${userId}`;
+
+/**
+ * Store a message embedding in the configured vector store
+ */
+export const storeMessageEmbedding = (
+  id: string,
+  embedding: number[],
+  metadata: VectorMetadata
+) =>
+  storeMessageEmbeddings(metadata.userId, [
+    { id, values: embedding, metadata },
+  ]);
+
+/**
+ * Store a batch of one user's message embeddings with a single upsert
+ */
+export const storeMessageEmbeddings = async (
+  userId: string,
+  records: VectorRecord[]
+) => {
+  const store = getVectorStore();
+  if (!store || records.length === 0) {
+    return;
+  }
+
+  try {
+    await store.upsert(getUserNamespace(userId), records);
+  } catch (error) {
+    // Re-throw with a user-friendly message
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Failed to store message in search index";
+    throw new Error(
+      `Vector store (${store.service}) storage error: ${errorMessage}`
+    );
+  }
+};
+
+/**
+ * Remove one user's message embeddings, e.g. when their conversation is
+ * deleted
+ */
+export const deleteMessageEmbeddings = async (
+  userId: string,
+  messageIds: string[]
+) => {
+  const store = getVectorStore();
+  if (!store || messageIds.length === 0) {
+    return;
+  }
+
+  try {
+    await store.delete(getUserNamespace(userId), messageIds);
+  } catch (error) {
+    // Re-throw with a user-friendly message
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Failed to remove messages from search index";
+    throw new Error(
+      `Vector store (${store.service}) delete error: ${errorMessage}`
+    );
+  }
+};
+
+/**
+ * Query the configured vector store for similar messages
+ * Always scoped to the calling user's namespace and userId
+ */
+export const querySimilarMessages = async (
+  embedding: number[],
+  options: {
+    userId: string;
+    topK?: number;
+    filter?: VectorFilter;
+    minScore?: number;
+  }
+) => {
+  const store = getVectorStore();
+  if (!store) {
+    return [];
+  }
+
+  try {
+    const topK = options.topK || 5; // Default to 5 similar messages
+
+    let matches = await store.query(embedding, {
+      namespace: getUserNamespace(options.userId),
+      topK,
+      // The userId clause is applied last so callers can't widen the scope
+      filter: { ...options.filter, userId: { $eq: options.userId } },
+    });
+
+    // Filter by minimum score if provided
+    if (options.minScore !== undefined) {
+      matches = matches.filter((match) => match.score >= options.minScore!);
+    }
+
+    // Vectors of deleted conversations are removed with them, but skip any
+    // whose removal failed
+    const conversationIds = Array.from(
+      new Set(
+        matches.flatMap((match) =>
+          match.metadata.conversationId ? [match.metadata.conversationId] : []
+        )
+      )
+    );
+    if (conversationIds.length > 0) {
+      const existing = new Set(
+        (
+          await prisma.conversation.findMany({
+            where: { id: { in: conversationIds } },
+            select: { id: true },
+          })
+        ).map((conversation) => conversation.id)
+      );
+      matches = matches.filter(
+        (match) =>
+          !match.metadata.conversationId ||
+          existing.has(match.metadata.conversationId)
+      );
+    }
+
+    return matches.map((match) => ({
+      id: match.id,
+      score: match.score,
+      content: match.metadata.content || "",
+      role: match.metadata.role || "user",
+      timestamp: match.metadata.timestamp || "",
+      conversationId: match.metadata.conversationId,
+      messageId: match.metadata.messageId || match.id,
+    }));
+  } catch (error) {
+    // Re-throw with a user-friendly message
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Failed to search similar messages";
+    throw new Error(
+      `Vector store (${store.service}) query error: ${errorMessage}`
+    );
+  }
+};
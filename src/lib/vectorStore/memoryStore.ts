@@ -0,0 +1,113 @@
+import { ApiService } from "@prisma/client";
+import {
+  getFilterEqualities,
+  VectorMatch,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+type Namespaces = Map<string, Map<string, VectorRecord>>;
+
+// Kept on globalThis so records survive hot reloads in development
+const globalForVectors = globalThis as unknown as {
+  inMemoryVectors: Namespaces | undefined;
+};
+
+/**
+ * Cosine similarity of two vectors (0 when either has zero length)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * In-process vector store using a brute-force cosine index
+ * Intended for local development and tests; data is lost on restart
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly service = ApiService.IN_MEMORY;
+
+  constructor(private readonly namespaces: Namespaces = new Map()) {}
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    let stored = this.namespaces.get(namespace);
+    if (!stored) {
+      stored = new Map();
+      this.namespaces.set(namespace, stored);
+    }
+
+    for (const record of records) {
+      stored.set(record.id, {
+        ...record,
+        values: [...record.values],
+        metadata: { ...record.metadata },
+      });
+    }
+  }
+
+  async query(
+    embedding: number[],
+    options: VectorQueryOptions
+  ): Promise<VectorMatch[]> {
+    const records = this.namespaces.get(options.namespace);
+    if (!records) {
+      return [];
+    }
+
+    const equalities = getFilterEqualities(options.filter);
+
+    return Array.from(records.values())
+      .filter((record) =>
+        equalities.every(
+          ([field, value]) =>
+            record.metadata[field as keyof typeof record.metadata] === value
+        )
+      )
+      .map((record) => ({
+        id: record.id,
+        score: cosineSimilarity(embedding, record.values),
+        metadata: { ...record.metadata },
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const records = this.namespaces.get(namespace);
+    ids.forEach((id) => records?.delete(id));
+  }
+
+  /**
+   * Remove all stored vectors
+   */
+  clear(): void {
+    this.namespaces.clear();
+  }
+}
+
+/**
+ * Shared in-memory store for the running process
+ */
+export const getSharedInMemoryVectorStore = (): InMemoryVectorStore => {
+  if (!globalForVectors.inMemoryVectors) {
+    globalForVectors.inMemoryVectors = new Map();
+  }
+  return new InMemoryVectorStore(globalForVectors.inMemoryVectors);
+};
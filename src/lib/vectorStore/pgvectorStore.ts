@@ -0,0 +1,173 @@
+import { ApiService, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import {
+  getFilterEqualities,
+  VectorMatch,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+// Metadata fields that map onto message_embeddings columns
+const FILTERABLE_COLUMNS: Record<string, string> = {
+  userId: "userId",
+  conversationId: "conversationId",
+  messageId: "messageId",
+  role: "role",
+};
+
+interface EmbeddingRow {
+  id: string;
+  userId: string;
+  conversationId: string | null;
+  messageId: string;
+  role: string;
+  content: string;
+  timestamp: Date;
+  score: number;
+}
+
+/**
+ * Format a vector as a pgvector literal, e.g. "[0.1,0.2]"
+ */
+const toVectorLiteral = (values: number[]): string => `[${values.join(",")}]`;
+
+// IDs per delete statement
+const DELETE_BATCH_SIZE = 1000;
+
+// Set once the embedding column is known to exist in this process
+let schemaReady: Promise<void> | undefined;
+
+/**
+ * Make sure pgvector and the embedding column exist
+ * The migration skips them on databases without pgvector, so a database
+ * that gained it later is set up on first use
+ */
+const ensureSchema = (): Promise<void> => {
+  if (!schemaReady) {
+    schemaReady = (async () => {
+      try {
+        const [column] = await prisma.$queryRaw<{ present: boolean }[]>`
+          SELECT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'message_embeddings'
+              AND column_name = 'embedding'
+          ) AS "present"
+        `;
+        if (!column?.present) {
+          await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS "vector"`;
+          await prisma.$executeRaw`
+            ALTER TABLE "message_embeddings"
+            ADD COLUMN IF NOT EXISTS "embedding" vector
+          `;
+        }
+      } catch (error) {
+        throw new Error(
+          `pgvector isn't available in this database (${
+            error instanceof Error ? error.message : String(error)
+          })`
+        );
+      }
+    })();
+    // Try again next time rather than caching the failure
+    schemaReady.catch(() => {
+      schemaReady = undefined;
+    });
+  }
+  return schemaReady;
+};
+
+/**
+ * Vector store backed by the pgvector extension in our Postgres database
+ * Rows live in the message_embeddings table; distance is cosine
+ */
+export class PgVectorStore implements VectorStore {
+  readonly service = ApiService.PGVECTOR;
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    await ensureSchema();
+
+    // The embedding column is Unsupported() in Prisma, so writes are raw SQL
+    await prisma.$transaction(
+      records.map(
+        (record) => prisma.$executeRaw`
+          INSERT INTO "message_embeddings"
+            ("id", "namespace", "userId", "conversationId", "messageId",
+             "role", "content", "timestamp", "embedding")
+          VALUES (
+            ${record.id}, ${namespace}, ${record.metadata.userId},
+            ${record.metadata.conversationId ?? null},
+            ${record.metadata.messageId || record.id},
+            ${record.metadata.role}, ${record.metadata.content},
+            ${new Date(record.metadata.timestamp)},
+            ${toVectorLiteral(record.values)}::vector
+          )
+          ON CONFLICT ("id") DO UPDATE SET
+            "namespace" = EXCLUDED."namespace",
+            "userId" = EXCLUDED."userId",
+            "conversationId" = EXCLUDED."conversationId",
+            "messageId" = EXCLUDED."messageId",
+            "role" = EXCLUDED."role",
+            "content" = EXCLUDED."content",
+            "timestamp" = EXCLUDED."timestamp",
+            "embedding" = EXCLUDED."embedding"
+        `
+      )
+    );
+  }
+
+  async query(
+    embedding: number[],
+    options: VectorQueryOptions
+  ): Promise<VectorMatch[]> {
+    await ensureSchema();
+    const vector = toVectorLiteral(embedding);
+
+    // Vectors from an embedding model of another dimension can't be compared
+    const conditions = [
+      Prisma.sql`"namespace" = ${options.namespace}`,
+      Prisma.sql`vector_dims("embedding") = ${embedding.length}`,
+    ];
+    for (const [field, value] of getFilterEqualities(options.filter)) {
+      const column = FILTERABLE_COLUMNS[field];
+      if (!column) {
+        throw new Error(`Unsupported filter field for pgvector: ${field}`);
+      }
+      conditions.push(Prisma.sql`${Prisma.raw(`"${column}"`)} = ${value}`);
+    }
+
+    const rows = await prisma.$queryRaw<EmbeddingRow[]>`
+      SELECT "id", "userId", "conversationId", "messageId", "role",
+             "content", "timestamp",
+             1 - ("embedding" <=> ${vector}::vector) AS "score"
+      FROM "message_embeddings"
+      WHERE ${Prisma.join(conditions, " AND ")}
+      ORDER BY "embedding" <=> ${vector}::vector
+      LIMIT ${options.topK}
+    `;
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: {
+        content: row.content,
+        role: row.role === "assistant" ? "assistant" : "user",
+        timestamp: row.timestamp.toISOString(),
+        userId: row.userId,
+        conversationId: row.conversationId ?? undefined,
+        messageId: row.messageId,
+      },
+    }));
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    for (let start = 0; start < ids.length; start += DELETE_BATCH_SIZE) {
+      await prisma.messageEmbedding.deleteMany({
+        where: {
+          namespace,
+          id: { in: ids.slice(start, start + DELETE_BATCH_SIZE) },
+        },
+      });
+    }
+  }
+}
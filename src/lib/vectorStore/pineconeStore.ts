@@ -0,0 +1,117 @@
+import { Pinecone } from "@pinecone-database/pinecone";
+import { ApiService } from "@prisma/client";
+import {
+  VectorMatch,
+  VectorMetadata,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore,
+} from "./types";
+
+// Initialize Pinecone client
+let pineconeClient: Pinecone | null = null;
+
+/**
+ * Check if Pinecone is configured
+ */
+export const isPineconeConfigured = (): boolean => {
+  const hasApiKey = !!process.env.PINECONE_API_KEY;
+  const hasIndexName = !!process.env.PINECONE_INDEX_NAME;
+  return hasApiKey && hasIndexName;
+};
+
+/**
+ * Get or create Pinecone client instance
+ */
+export const getPineconeClient = (): Pinecone => {
+  if (pineconeClient) {
+    return pineconeClient;
+  }
+
+  const apiKey = process.env.PINECONE_API_KEY;
+  if (!apiKey) {
+    throw new Error("PINECONE_API_KEY is not set in environment variables");
+  }
+
+  pineconeClient = new Pinecone({
+    apiKey: apiKey,
+  });
+
+  return pineconeClient;
+};
+
+/**
+ * Get the Pinecone index
+ */
+export const getPineconeIndex = async () => {
+  const indexName = process.env.PINECONE_INDEX_NAME;
+  if (!indexName) {
+    throw new Error("PINECONE_INDEX_NAME is not set in environment variables");
+  }
+
+  const client = getPineconeClient();
+  const index = client.index(indexName);
+  return index;
+};
+
+// Most IDs Pinecone accepts in one delete request
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Vector store backed by a Pinecone index
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly service = ApiService.PINECONE;
+
+  async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    const index = await getPineconeIndex();
+
+    await index.namespace(namespace).upsert(
+      records.map((record) => ({
+        id: record.id,
+        values: record.values,
+        metadata: {
+          content: record.metadata.content,
+          role: record.metadata.role,
+          timestamp: record.metadata.timestamp,
+          userId: record.metadata.userId,
+          // Pinecone rejects null metadata values, so omit when absent
+          ...(record.metadata.conversationId && {
+            conversationId: record.metadata.conversationId,
+          }),
+          messageId: record.metadata.messageId || record.id,
+        },
+      }))
+    );
+  }
+
+  async query(
+    embedding: number[],
+    options: VectorQueryOptions
+  ): Promise<VectorMatch[]> {
+    const index = await getPineconeIndex();
+
+    const queryResponse = await index.namespace(options.namespace).query({
+      vector: embedding,
+      topK: options.topK,
+      includeMetadata: true,
+      filter: options.filter,
+    });
+
+    return (queryResponse.matches || []).map((match) => ({
+      id: match.id,
+      score: match.score || 0,
+      metadata: (match.metadata || {}) as Partial<VectorMetadata>,
+    }));
+  }
+
+  async delete(namespace: string, ids: string[]): Promise<void> {
+    const index = await getPineconeIndex();
+
+    for (let start = 0; start < ids.length; start += DELETE_BATCH_SIZE) {
+      await index
+        .namespace(namespace)
+        .deleteMany(ids.slice(start, start + DELETE_BATCH_SIZE));
+    }
+  }
+}
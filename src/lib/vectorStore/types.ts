@@ -0,0 +1,79 @@
+import { ApiService } from "@prisma/client";
+
+/**
+ * Metadata stored alongside every message vector
+ */
+export interface VectorMetadata {
+  content: string;
+  role: "user" | "assistant";
+  timestamp: string;
+  userId: string;
+  conversationId?: string;
+  messageId?: string;
+}
+
+/**
+ * A vector together with its ID and metadata
+ */
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+/**
+ * Metadata filter in Pinecone's syntax
+ * Backends support plain equality and `{ $eq: value }` on metadata fields
+ */
+export type VectorFilter = Record<string, unknown>;
+
+/**
+ * Options for a similarity query
+ */
+export interface VectorQueryOptions {
+  namespace: string;
+  topK: number;
+  filter?: VectorFilter;
+}
+
+/**
+ * A query match, scored by cosine similarity (1 = identical)
+ */
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: Partial<VectorMetadata>;
+}
+
+/**
+ * Storage backend for message embeddings
+ */
+export interface VectorStore {
+  /** Service that usage of this backend is billed under */
+  readonly service: ApiService;
+  upsert(namespace: string, records: VectorRecord[]): Promise<void>;
+  query(embedding: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+  /** Remove vectors by ID; unknown IDs are ignored */
+  delete(namespace: string, ids: string[]): Promise<void>;
+}
+
+/**
+ * Resolve a filter into field/value equality pairs
+ * Throws on operators other than $eq so a filter is never silently ignored
+ */
+export function getFilterEqualities(
+  filter: VectorFilter = {}
+): Array<[string, unknown]> {
+  return Object.entries(filter).map(([field, condition]) => {
+    if (condition !== null && typeof condition === "object") {
+      const operators = Object.keys(condition);
+      if (operators.length !== 1 || operators[0] !== "$eq") {
+        throw new Error(
+          `Unsupported filter on "${field}": only equality is supported`
+        );
+      }
+      return [field, (condition as { $eq: unknown }).$eq];
+    }
+    return [field, condition];
+  });
+}
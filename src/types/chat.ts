@@ -1,9 +1,24 @@
+import { SavedExchange } from "./conversation";
+import { TemplateSelection } from "./templates";
+
 // Core message types
 export interface Message {
   id: string;
   content: string;
   role: "user" | "assistant";
   timestamp: Date;
+  isStreaming?: boolean; // True while tokens are still arriving
+  data?: unknown; // Parsed reply of a structured-output template
+  stopped?: boolean; // Generation was stopped; off the conversation unless kept
+  versions?: MessageVersion[]; // Every version of a regenerated reply or edited prompt, oldest first
+}
+
+// One version of a message (a sibling in the conversation tree); the
+// selected one's branch is what goes into the next turn's history
+export interface MessageVersion {
+  id: string;
+  content: string;
+  data?: unknown;
 }
 
 // Chat state management
@@ -16,41 +31,96 @@ export interface ChatState {
 // API request/response types
 export interface ChatRequest {
   message: string;
-  templateId?: string;
+  templateId?: string; // Shorthand for a one-template stack
   templateVariables?: Record<string, string | number | boolean>;
+  templates?: TemplateSelection[]; // Ordered stack composed into one system prompt; replaces templateId
   conversationHistory?: Array<{
     role: "user" | "assistant";
     content: string;
   }>;
+  conversationId?: string; // Continue a stored conversation
+  model?: string; // Must be one of the models from /api/models
+  stream?: boolean; // Respond with Server-Sent Events instead of JSON
+  regenerateMessageId?: string; // Stored reply to write another version of; message is then ignored
+  editMessageId?: string; // Stored user message that message replaces, starting a new branch
 }
 
 export interface ChatResponse {
   response: string;
+  data?: unknown; // Schema-validated JSON when the template declares an output schema
   templateId?: string;
+  templateIds?: string[]; // Templates composed into the system prompt, in order
+  conversationId?: string;
+  messageId?: string; // Stored ID of the reply
+  userMessageId?: string; // Stored ID of the prompt
   metadata?: {
+    provider?: string;
     model: string;
     tokensUsed?: number;
     processingTime?: number;
   };
 }
 
+// A model the user can pick, with per-1K token pricing when metered
+export interface ChatModelOption {
+  id: string;
+  inputPricePer1K?: number;
+  outputPricePer1K?: number;
+}
+
+export interface ChatModelsResponse {
+  provider: string;
+  defaultModel: string;
+  models: ChatModelOption[];
+}
+
+// Why a chat request failed; each code maps to one HTTP status
+export type ChatErrorCode =
+  | "invalid_request" // 400: malformed body, missing message, template error
+  | "unsupported_model" // 400: model not in /api/models
+  | "not_found" // 404: unknown conversation or template
+  | "context_length_exceeded" // 413: prompt too long for the model
+  | "limit_exceeded" // 429: the user's daily or monthly budget is spent
+  | "rate_limited" // 429: the model provider is throttling us
+  | "provider_auth" // 502: the provider rejected our API key
+  | "invalid_model_output" // 502: reply empty or not matching the schema
+  | "provider_unavailable" // 503: provider down, overloaded or unreachable
+  | "provider_timeout" // 504: provider took too long
+  | "cancelled" // 499: the client stopped the request
+  | "internal_error"; // 500: a bug on our side
+
 export interface ChatError {
   error: string;
+  code?: ChatErrorCode;
+  retryAfter?: number; // Seconds to wait before retrying, when known
 }
 
+// Server-Sent Events emitted by /api/chat in streaming mode
+export type ChatStreamEvent =
+  | { type: "start"; exchange: SavedExchange } // Where the exchange will be stored, even if stopped
+  | { type: "token"; content: string }
+  | { type: "done"; response: ChatResponse }
+  | ({ type: "error" } & ChatError);
+
 // Chat hook return type
 export interface UseChatReturn {
   messages: Message[];
   isLoading: boolean;
-  error: string | null;
+  error: ChatError | null;
   sendMessage: (content: string) => Promise<void>;
+  stopGeneration: () => void;
+  keepStoppedReply: (messageId: string) => Promise<void>;
+  discardStoppedReply: (messageId: string) => Promise<void>;
+  regenerateMessage: (messageId: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  selectVersion: (messageId: string, versionId: string) => Promise<void>;
   clearMessages: () => void;
-  selectedTemplateId?: string;
-  templateVariables: Record<string, string | number | boolean>;
-  updateTemplate: (
-    templateId: string | undefined,
-    variables?: Record<string, string | number | boolean>
-  ) => void;
+  conversationId?: string;
+  loadConversation: (conversationId: string, messageId?: string) => Promise<void>; // messageId: open on that message's branch
+  selectedModel?: string;
+  updateModel: (model: string | undefined) => void;
+  selectedTemplates: TemplateSelection[];
+  updateTemplates: (templates: TemplateSelection[]) => void;
 }
 
 // Component props types
@@ -61,14 +131,40 @@ export interface ChatInterfaceProps {
 export interface MessageListProps {
   messages: Message[];
   isLoading: boolean;
+  onKeepStopped?: (messageId: string) => void;
+  onDiscardStopped?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSelectVersion?: (messageId: string, versionId: string) => void;
+  highlightedMessageId?: string; // Scrolled into view instead of the end
 }
 
 export interface MessageProps {
   message: Message;
+  onKeep?: () => void; // Shown on a stopped reply
+  onDiscard?: () => void;
+  onRegenerate?: () => void; // Shown on a stored reply
+  onEdit?: (content: string) => void; // Shown on a stored prompt
+  onSelectVersion?: (versionId: string) => void;
+  highlighted?: boolean; // E.g. the message a search result points at
+}
+
+export interface JsonTreeProps {
+  data: unknown;
+  className?: string;
+}
+
+export interface ModelSelectorProps {
+  selectedModel?: string;
+  onModelSelect: (model: string | undefined) => void;
+  onError?: (message: string) => void;
+  disabled?: boolean;
+  className?: string;
 }
 
 export interface ChatInputProps {
   onSendMessage: (content: string) => Promise<void>;
+  onStop?: () => void; // Replaces the send button while loading
   isLoading: boolean;
   disabled?: boolean;
 }
@@ -0,0 +1,46 @@
+import { MessageVersion } from "./chat";
+
+// Conversation list item returned by /api/conversations
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  overview: string | null; // Generated one-paragraph summary
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Stored message as returned by /api/conversations/[id]
+export interface StoredMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  versions?: MessageVersion[]; // Set on replies that have alternatives
+}
+
+// Conversation with its messages
+export interface ConversationDetail extends ConversationSummary {
+  messages: StoredMessage[];
+}
+
+// IDs of a stored exchange; a streamed one announces them before its reply
+export interface SavedExchange {
+  conversationId: string;
+  userMessageId: string;
+  assistantMessageId: string;
+}
+
+// Result of discarding a stopped reply
+export interface DiscardStoppedReplyResponse {
+  conversationDeleted: boolean; // Nothing else was in the conversation
+}
+
+// Sidebar props
+export interface ConversationSidebarProps {
+  activeConversationId?: string;
+  onSelectConversation: (conversationId: string, messageId?: string) => void; // messageId: a search hit to jump to
+  onNewConversation: () => void;
+  onDeleteConversation?: (conversationId: string) => void;
+  refreshTrigger?: number;
+  className?: string;
+}
@@ -0,0 +1,36 @@
+import { TemplateSelection } from "./templates";
+
+// Formats offered by the export endpoints
+export type ExportFormat = "markdown" | "json" | "html";
+
+// A message in a JSON export; the whole tree is included, not just the
+// active branch
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null; // Siblings under one parent are versions
+  selected: boolean; // The selected sibling among its versions
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  model?: string; // Set on replies
+  cost?: number; // USD logged for the call that wrote a reply
+  templates?: TemplateSelection[]; // Template stack a reply was written with
+}
+
+// A conversation in a JSON export
+export interface ExportedConversation {
+  id: string;
+  title: string | null;
+  overview: string | null;
+  createdAt: string;
+  updatedAt: string;
+  activeBranch: string[]; // Message IDs on the active branch, oldest first
+  messages: ExportedMessage[];
+}
+
+// JSON export file; version changes whenever the shape does
+export interface ConversationExport {
+  version: 1;
+  exportedAt: string;
+  conversation: ExportedConversation;
+}
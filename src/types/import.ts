@@ -0,0 +1,38 @@
+// Import sources and lifecycle, mirroring the ImportSource and ImportStatus enums
+export type ImportSourceName = "CHATGPT" | "EXPORT";
+export type ImportStatusName = "PENDING" | "RUNNING" | "COMPLETED";
+
+// Body of POST /api/imports
+export interface CreateImportRequest {
+  data: unknown; // Parsed contents of the uploaded JSON file
+  fileName?: string;
+  backfillEmbeddings?: boolean; // Embed imported messages for RAG and search
+}
+
+// Import progress as returned by /api/imports
+export interface ImportSummary {
+  id: string;
+  source: ImportSourceName;
+  fileName: string | null;
+  status: ImportStatusName;
+  backfillEmbeddings: boolean;
+  totalConversations: number;
+  importedConversations: number;
+  importedMessages: number;
+  embeddedMessages: number;
+  embeddingCost: number;
+  embeddingError: string | null;
+  lastError: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// Response of GET /api/imports
+export interface ImportListResponse {
+  imports: ImportSummary[];
+}
+
+// Import page props
+export interface ConversationImporterProps {
+  className?: string;
+}
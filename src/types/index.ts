@@ -2,3 +2,9 @@
 export * from "./chat";
 export * from "./templates";
 export * from "./auth";
+export * from "./conversation";
+export * from "./search";
+export * from "./export";
+export * from "./import";
+export * from "./share";
+export * from "./jobs";
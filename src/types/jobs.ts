@@ -0,0 +1,27 @@
+// Background job lifecycle, mirroring the JobStatus enum
+export type JobStatusName = "PENDING" | "RUNNING" | "COMPLETED" | "DEAD";
+
+// Job as returned by /api/admin/jobs
+export interface JobSummary {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: JobStatusName;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response of /api/admin/jobs
+export interface JobListResponse {
+  jobs: JobSummary[];
+  counts: Record<JobStatusName, number>;
+}
+
+// Failed jobs admin view props
+export interface FailedJobsProps {
+  className?: string;
+}
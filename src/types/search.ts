@@ -0,0 +1,28 @@
+// Part of a search snippet; highlighted parts matched the query
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+// A stored message matching a search, as returned by /api/search
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  role: "user" | "assistant";
+  timestamp: string;
+  snippet: SearchSnippetPart[];
+  match: "text" | "semantic"; // Full-text hit, or only similar in meaning
+}
+
+// Response of GET /api/search
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  semanticFailed?: boolean; // Similar messages were asked for but couldn't be fetched; results are full-text only
+}
+
+// Search box props
+export interface MessageSearchProps {
+  onSelectResult: (result: MessageSearchResult) => void;
+  className?: string;
+}
@@ -0,0 +1,61 @@
+import { Message } from "./chat";
+
+// A template a shared reply was written with
+export type SharedTemplate = {
+  name: string;
+  variables?: Record<string, string | number | boolean>; // Left out when the share hides them
+};
+
+// A message on a shared page
+export type SharedMessage = {
+  role: "user" | "assistant";
+  content: string | null; // Null when redacted
+  timestamp: string;
+  model?: string;
+  templates?: SharedTemplate[]; // Left out when redacted
+};
+
+// What a share link shows: the active branch as it was when shared. Stored
+// as JSON, so these are type aliases, which Prisma's JSON input accepts
+export type SharedConversation = {
+  title: string | null;
+  sharedAt: string;
+  messages: SharedMessage[];
+};
+
+// Body of POST /api/conversations/[id]/shares
+export interface CreateShareRequest {
+  expiresAt?: string | null; // ISO time; omit or null for a link that doesn't expire
+  hideTemplateVariables?: boolean;
+  redactedMessageIds?: string[]; // Messages on the active branch to leave out
+}
+
+// A share link as returned to its owner
+export interface ConversationShareSummary {
+  id: string;
+  token: string;
+  conversationId: string;
+  hideTemplateVariables: boolean;
+  redactedMessages: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// Response of GET /api/conversations/[id]/shares
+export interface ShareListResponse {
+  shares: ConversationShareSummary[];
+}
+
+// Share panel props
+export interface SharePanelProps {
+  conversationId: string;
+  messages: Message[]; // Active branch, for picking messages to redact
+  onError?: (message: string) => void;
+  className?: string;
+}
+
+// Public shared page props
+export interface SharedConversationViewProps {
+  conversation: SharedConversation;
+}
@@ -11,11 +11,36 @@ export interface PromptTemplate {
   category: TemplateCategory;
   content: string;
   variables: TemplateVariable[];
+  // Structured output: replies must be JSON matching the schema. A function
+  // builds the schema from the variables; undefined means free text
+  outputSchema?:
+    | JsonSchema
+    | ((variables: TemplateVariables) => JsonSchema | undefined);
   version: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// JSON schema subset supported for structured output
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+}
+
 // Template categories
 export type TemplateCategory =
   | "role"
@@ -41,6 +66,34 @@ export interface TemplateResult {
   templateId: string;
 }
 
+// One template of a composed system prompt, with its own variables; a
+// type alias so replies can store it as JSON
+export type TemplateSelection = {
+  templateId: string;
+  variables?: Record<string, string | number | boolean>;
+};
+
+// A template ready to compose, with the variables it renders with
+export interface TemplateStackEntry {
+  template: PromptTemplate;
+  variables: TemplateVariables;
+}
+
+// Result of rendering a stack of templates into one system prompt
+export interface ComposedTemplateResult {
+  content: string;
+  templateIds: string[];
+  // Schema of the one template in the stack that declares output, if any
+  outputSchema?: JsonSchema;
+}
+
+// A variable name declared by more than one template in a stack whose
+// values disagree
+export interface TemplateVariableConflict {
+  name: string;
+  templateIds: string[];
+}
+
 // Template engine interface
 export interface TemplateEngine {
   render(
@@ -52,6 +105,8 @@ export interface TemplateEngine {
     template: PromptTemplate,
     variables: TemplateVariables
   ): string[];
+  compose(stack: TemplateStackEntry[]): ComposedTemplateResult;
+  findVariableConflicts(stack: TemplateStackEntry[]): TemplateVariableConflict[];
 }
 
 // Chat request with template support
@@ -65,10 +120,10 @@ export interface ChatRequestWithTemplate {
   }>;
 }
 
-// Template selection UI props
+// Template selection UI props; the selection is an ordered stack
 export interface TemplateSelectorProps {
-  onTemplateSelect: (templateId: string) => void;
-  selectedTemplateId?: string;
+  selectedTemplates: TemplateSelection[];
+  onTemplatesChange: (templates: TemplateSelection[]) => void;
   className?: string;
 }
 
@@ -0,0 +1,58 @@
+/**
+ * Background job worker: `npm run worker`
+ * Polls the jobs table and runs due jobs until SIGINT/SIGTERM. Run any
+ * number of these alongside the app with JOB_RUNNER=worker.
+ */
+import { processJobs } from "@/lib/jobs";
+import { prisma } from "@/lib/prisma";
+import { getVectorStoreBackend } from "@/lib/vectorStore";
+
+// Wait between polls when the queue is empty
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 1000;
+
+let stopping = false;
+
+const stop = () => {
+  console.log("Worker stopping after the current batch...");
+  stopping = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  // The in-memory store lives in one process, so messages the worker
+  // indexed would never reach the app's RAG lookups
+  if (getVectorStoreBackend() === "memory") {
+    throw new Error(
+      "The in-memory vector store can't be shared with a worker. Set VECTOR_STORE=pgvector or pinecone (or none) to run jobs with npm run worker"
+    );
+  }
+
+  console.log(`Worker started (polling every ${POLL_INTERVAL_MS}ms)`);
+
+  while (!stopping) {
+    try {
+      const { completed, retried, dead } = await processJobs();
+      if (completed + retried + dead > 0) {
+        console.log(
+          `Processed jobs: ${completed} completed, ${retried} retried, ${dead} dead`
+        );
+        continue;
+      }
+    } catch (error) {
+      // Usually the database being unreachable; try again after a pause
+      console.error("Failed to process jobs:", error);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});